@@ -43,4 +43,25 @@ self.addEventListener('activate', (event) => {
       );
     })
   );
+});
+
+// Notification action buttons (snooze, postpone, extend) are handled by the open app
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true })
+      .then((clientList) => {
+        const client = clientList[0];
+
+        if (client) {
+          if (event.action) {
+            client.postMessage({ type: 'timer-action', action: event.action });
+          }
+          return client.focus();
+        }
+
+        return self.clients.openWindow('/');
+      })
+  );
 });
\ No newline at end of file
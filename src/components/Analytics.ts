@@ -0,0 +1,189 @@
+import { SESSION_TYPE_LABELS, type SessionType } from '../utils/constants.js';
+import { StorageManager } from '../utils/storage.js';
+import type { StorageChange } from '../utils/storageAdapter.js';
+import { CHART_WIDTH, renderBarChart, svgElement } from '../utils/charts.js';
+import {
+  formatDate,
+  formatMinutes,
+  getPeriodRange,
+  shiftPeriod,
+  summarizePeriod,
+  type AnalyticsPeriod,
+  type PeriodRange,
+  type PeriodSummary
+} from '../utils/analytics.js';
+
+// The type split is one bar across the chart's width
+const SPLIT_HEIGHT = 16;
+
+/**
+ * Focus time per day for a week or month, with the period's averages and how
+ * its time split between work and breaks. Charts are plain SVG coloured from
+ * the theme's CSS variables, so they follow the dark/light switch.
+ */
+export class Analytics {
+  private storageManager: StorageManager;
+  private range: PeriodRange;
+  private periodButtons: NodeListOf<HTMLButtonElement>;
+  private prevButton: HTMLButtonElement | null;
+  private nextButton: HTMLButtonElement | null;
+  private periodLabel: HTMLElement | null;
+  private chartElement: HTMLElement | null;
+  private splitElement: HTMLElement | null;
+  private totalElement: HTMLElement | null;
+  private averageElement: HTMLElement | null;
+  private completionElement: HTMLElement | null;
+  private loading: number = 0;  // ignores a load that finishes after a newer one started
+
+  constructor() {
+    this.storageManager = StorageManager.getInstance();
+    this.range = getPeriodRange('week', this.storageManager.getToday());
+    this.periodButtons = document.querySelectorAll<HTMLButtonElement>('.analytics-period [data-period]');
+    this.prevButton = document.getElementById('analytics-prev') as HTMLButtonElement | null;
+    this.nextButton = document.getElementById('analytics-next') as HTMLButtonElement | null;
+    this.periodLabel = document.getElementById('analytics-range');
+    this.chartElement = document.getElementById('analytics-chart');
+    this.splitElement = document.getElementById('analytics-split');
+    this.totalElement = document.getElementById('analytics-total');
+    this.averageElement = document.getElementById('analytics-average');
+    this.completionElement = document.getElementById('analytics-completion');
+
+    this.bindEvents();
+    void this.refresh();
+  }
+
+  private bindEvents(): void {
+    this.periodButtons.forEach(button => {
+      button.addEventListener('click', () => {
+        this.showPeriod(button.dataset.period as AnalyticsPeriod);
+      });
+    });
+
+    this.prevButton?.addEventListener('click', () => {
+      this.range = shiftPeriod(this.range, -1);
+      void this.refresh();
+    });
+
+    this.nextButton?.addEventListener('click', () => {
+      this.range = shiftPeriod(this.range, 1);
+      void this.refresh();
+    });
+
+    document.addEventListener('sessionRecorded', () => void this.refresh());
+    this.storageManager.addEventListener('change', (event: Event) => {
+      if ((event as CustomEvent<StorageChange>).detail.store === 'sessions') {
+        void this.refresh();
+      }
+    });
+  }
+
+  private showPeriod(period: AnalyticsPeriod): void {
+    if (period === this.range.period) return;
+
+    // Stay around the period being looked at, or on today if it's in view
+    const today = this.storageManager.getToday();
+    const inView = today >= this.range.start && today <= this.range.end;
+    this.range = getPeriodRange(period, inView ? today : this.range.start);
+    void this.refresh();
+  }
+
+  private async refresh(): Promise<void> {
+    const loading = ++this.loading;
+    const range = this.range;
+    const records = await this.storageManager.getSessionsForDateRange(range.start, range.end);
+    if (loading !== this.loading) return;
+
+    this.render(summarizePeriod(range, records));
+  }
+
+  private render(summary: PeriodSummary): void {
+    const { range } = summary;
+
+    this.periodButtons.forEach(button => {
+      button.setAttribute('aria-pressed', String(button.dataset.period === range.period));
+    });
+    if (this.periodLabel) {
+      this.periodLabel.textContent = this.formatRange(range);
+    }
+    if (this.nextButton) {
+      // Nothing to see after the current period
+      this.nextButton.disabled = range.end >= this.storageManager.getToday();
+    }
+
+    if (this.totalElement) {
+      this.totalElement.textContent = formatMinutes(summary.totalFocusMinutes);
+    }
+    if (this.averageElement) {
+      this.averageElement.textContent = summary.averageSessionMinutes === null
+        ? '–'
+        : formatMinutes(Math.round(summary.averageSessionMinutes));
+    }
+    if (this.completionElement) {
+      this.completionElement.textContent = summary.completionRate === null
+        ? '–'
+        : `${Math.round(summary.completionRate * 100)}%`;
+    }
+
+    this.chartElement?.replaceChildren(this.renderFocusChart(summary));
+    this.splitElement?.replaceChildren(...this.renderTypeSplit(summary));
+  }
+
+  private renderFocusChart(summary: PeriodSummary): SVGSVGElement {
+    const today = this.storageManager.getToday();
+    const bars = summary.focusMinutesByDay.map(day => ({
+      label: summary.range.period === 'week'
+        ? formatDate(day.date, { weekday: 'short' })
+        : String(Number(day.date.slice(8))),
+      minutes: day.minutes,
+      title: `${formatDate(day.date, { weekday: 'short', month: 'short', day: 'numeric' })}: ${formatMinutes(day.minutes)}`,
+      highlight: day.date === today
+    }));
+
+    return renderBarChart(bars, `Focus time per day, ${this.formatRange(summary.range)}: ${formatMinutes(summary.totalFocusMinutes)} in total`);
+  }
+
+  // One bar split by session type, then a legend with each type's time
+  private renderTypeSplit(summary: PeriodSummary): Element[] {
+    const types = Object.keys(summary.minutesByType) as SessionType[];
+    const total = types.reduce((sum, type) => sum + summary.minutesByType[type], 0);
+
+    const svg = svgElement('svg', {
+      viewBox: `0 0 ${CHART_WIDTH} ${SPLIT_HEIGHT}`,
+      preserveAspectRatio: 'none',
+      role: 'img',
+      'aria-label': types.map(type => `${SESSION_TYPE_LABELS[type]} ${formatMinutes(summary.minutesByType[type])}`).join(', ')
+    });
+    svg.append(svgElement('rect', { class: 'chart-track', x: 0, y: 0, width: CHART_WIDTH, height: SPLIT_HEIGHT }));
+
+    let x = 0;
+    types.forEach(type => {
+      if (total === 0 || summary.minutesByType[type] === 0) return;
+
+      const width = (summary.minutesByType[type] / total) * CHART_WIDTH;
+      svg.append(svgElement('rect', { class: `chart-split ${type}`, x, y: 0, width, height: SPLIT_HEIGHT }));
+      x += width;
+    });
+
+    const legend = document.createElement('ul');
+    legend.className = 'analytics-legend';
+    types.forEach(type => {
+      const item = document.createElement('li');
+      const swatch = document.createElement('span');
+      swatch.className = `legend-swatch ${type}`;
+      const share = total > 0 ? Math.round((summary.minutesByType[type] / total) * 100) : 0;
+      item.append(swatch, `${SESSION_TYPE_LABELS[type]} ${formatMinutes(summary.minutesByType[type])} (${share}%)`);
+      legend.append(item);
+    });
+
+    return [svg, legend];
+  }
+
+  private formatRange(range: PeriodRange): string {
+    if (range.period === 'month') {
+      return formatDate(range.start, { month: 'long', year: 'numeric' });
+    }
+    const from = formatDate(range.start, { month: 'short', day: 'numeric' });
+    const to = formatDate(range.end, { month: 'short', day: 'numeric', year: 'numeric' });
+    return `${from} – ${to}`;
+  }
+}
\ No newline at end of file
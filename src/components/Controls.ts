@@ -1,15 +1,30 @@
 import { PomodoroTimer, type TimerEventData } from './Timer.js';
-import { TIMER_STATES } from '../utils/constants.js';
+import { TIMER_STATES, SESSION_TYPES, INTERRUPTION_TYPES, type InterruptionType } from '../utils/constants.js';
 
 export class TimerControls {
   private timer: PomodoroTimer;
   private startPauseBtn: HTMLButtonElement;
   private resetBtn: HTMLButtonElement;
+  private finishBtn: HTMLButtonElement | null;
+  private interruptBtn: HTMLButtonElement | null;
+  private extendBtn: HTMLButtonElement | null;
+  private snoozeBtn: HTMLButtonElement | null;
+  private cancelAutoStartBtn: HTMLButtonElement | null;
+  private autoStartPending: boolean = false;
+  private interruptionPanel: HTMLElement | null;
+  private interruptionNoteInput: HTMLInputElement | null;
 
   constructor(timer: PomodoroTimer) {
     this.timer = timer;
     this.startPauseBtn = document.getElementById('start-pause-btn') as HTMLButtonElement;
     this.resetBtn = document.getElementById('reset-btn') as HTMLButtonElement;
+    this.finishBtn = document.getElementById('finish-btn') as HTMLButtonElement | null;
+    this.interruptBtn = document.getElementById('interrupt-btn') as HTMLButtonElement | null;
+    this.extendBtn = document.getElementById('extend-btn') as HTMLButtonElement | null;
+    this.snoozeBtn = document.getElementById('snooze-btn') as HTMLButtonElement | null;
+    this.cancelAutoStartBtn = document.getElementById('cancel-auto-start-btn') as HTMLButtonElement | null;
+    this.interruptionPanel = document.querySelector('.interruption-panel');
+    this.interruptionNoteInput = document.getElementById('interruption-note') as HTMLInputElement | null;
 
     this.bindEvents();
     this.timer.addEventListener('timerUpdate', this.handleTimerUpdate.bind(this));
@@ -24,26 +39,106 @@ export class TimerControls {
       this.timer.reset();
     });
 
+    this.finishBtn?.addEventListener('click', () => {
+      this.timer.finish();
+    });
+
+    this.extendBtn?.addEventListener('click', () => {
+      this.timer.extend();
+    });
+
+    this.snoozeBtn?.addEventListener('click', () => {
+      this.snoozeOrPostpone();
+    });
+
+    this.cancelAutoStartBtn?.addEventListener('click', () => {
+      this.timer.cancelScheduledStart();
+    });
+
+    this.interruptBtn?.addEventListener('click', () => {
+      this.toggleInterruptionPanel();
+    });
+
+    this.interruptionPanel?.querySelectorAll<HTMLButtonElement>('[data-interruption]').forEach(button => {
+      button.addEventListener('click', () => {
+        this.logInterruption(button.dataset.interruption as InterruptionType, this.interruptionNoteInput?.value);
+      });
+    });
+
     // Keyboard shortcuts
     document.addEventListener('keydown', (e) => {
+      // Leave browser and system shortcuts such as Ctrl+S or Cmd+R alone
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+
       if (e.code === 'Space' && !this.isInputFocused()) {
         e.preventDefault();
         this.handleStartPauseClick();
       } else if (e.code === 'KeyR' && !this.isInputFocused()) {
         e.preventDefault();
         this.timer.reset();
+      } else if (e.code === 'KeyF' && !this.isInputFocused() && this.timer.isCountingUp()) {
+        e.preventDefault();
+        this.timer.finish();
+      } else if (e.code === 'KeyE' && !this.isInputFocused()) {
+        e.preventDefault();
+        this.timer.extend();
+      } else if (e.code === 'KeyS' && !this.isInputFocused()) {
+        e.preventDefault();
+        this.snoozeOrPostpone();
+      } else if (e.code === 'Escape' && this.autoStartPending && !this.isInputFocused()) {
+        e.preventDefault();
+        this.timer.cancelScheduledStart();
+      } else if (e.code === 'KeyI' && !this.isInputFocused()) {
+        // One key to note an interruption; Shift marks it as external
+        e.preventDefault();
+        this.logInterruption(e.shiftKey ? INTERRUPTION_TYPES.EXTERNAL : INTERRUPTION_TYPES.INTERNAL);
       }
     });
   }
 
+  // Breaks get snoozed; a waiting work session gets postponed instead
+  private snoozeOrPostpone(): void {
+    if (this.canSnooze(this.timer.getState(), this.timer.getSessionType())) {
+      this.timer.snooze();
+    } else {
+      this.timer.postpone();
+    }
+  }
+
+  private canSnooze(state: string, sessionType: string): boolean {
+    return state === TIMER_STATES.COMPLETED
+      ? sessionType === SESSION_TYPES.WORK
+      : state !== TIMER_STATES.PAUSED && sessionType !== SESSION_TYPES.WORK;
+  }
+
+  private logInterruption(type: InterruptionType, note?: string): void {
+    if (this.timer.logInterruption(type, note)) {
+      if (this.interruptionNoteInput) {
+        this.interruptionNoteInput.value = '';
+      }
+      this.toggleInterruptionPanel(false);
+    }
+  }
+
+  private toggleInterruptionPanel(show?: boolean): void {
+    if (!this.interruptionPanel) return;
+
+    this.interruptionPanel.hidden = !(show ?? this.interruptionPanel.hidden);
+    if (!this.interruptionPanel.hidden) {
+      this.interruptionNoteInput?.focus();
+    }
+  }
+
   private handleStartPauseClick(): void {
     const state = this.timer.getState();
 
     switch (state) {
       case TIMER_STATES.IDLE:
-      case TIMER_STATES.PAUSED:
         this.timer.start();
         break;
+      case TIMER_STATES.PAUSED:
+        this.timer.resume();
+        break;
       case TIMER_STATES.RUNNING:
         this.timer.pause();
         break;
@@ -51,8 +146,44 @@ export class TimerControls {
   }
 
   private handleTimerUpdate(event: Event): void {
-    const { state } = (event as CustomEvent<TimerEventData>).detail;
+    const { state, countUp, sessionType, autoStartIn } = (event as CustomEvent<TimerEventData>).detail;
     this.updateButtonStates(state);
+
+    // During an auto-start countdown, start skips the wait and cancel stops it
+    this.autoStartPending = autoStartIn !== null;
+    if (this.autoStartPending && state === TIMER_STATES.IDLE) {
+      this.startPauseBtn.textContent = 'Start Now';
+    }
+    if (this.cancelAutoStartBtn) {
+      this.cancelAutoStartBtn.hidden = !this.autoStartPending;
+      this.cancelAutoStartBtn.textContent = `Cancel (${autoStartIn}s)`;
+    }
+
+    const inSession = state === TIMER_STATES.RUNNING || state === TIMER_STATES.PAUSED;
+
+    // Flowtime sessions only end when the user says so
+    if (this.finishBtn) {
+      this.finishBtn.hidden = !countUp || !inSession;
+    }
+
+    if (this.extendBtn) {
+      this.extendBtn.hidden = countUp || !inSession;
+      this.extendBtn.textContent = `+${this.timer.getSettings().extendMinutes} min`;
+    }
+
+    if (this.snoozeBtn) {
+      const canSnooze = this.canSnooze(state, sessionType);
+      this.snoozeBtn.hidden = !canSnooze && state !== TIMER_STATES.IDLE;
+      this.snoozeBtn.textContent = canSnooze ? 'Snooze Break' : 'Postpone';
+    }
+
+    // Interruptions can only be logged against a session in progress
+    if (this.interruptBtn) {
+      this.interruptBtn.hidden = !inSession;
+    }
+    if (!inSession) {
+      this.toggleInterruptionPanel(false);
+    }
   }
 
   private updateButtonStates(state: string): void {
@@ -0,0 +1,284 @@
+import { StorageManager, type SessionRecord } from '../utils/storage.js';
+import { getPeriodRange } from '../utils/analytics.js';
+import { sessionsToCsv, sessionsToIcs } from '../utils/sessionExport.js';
+import { ImportError, type ImportMode, type ImportReport, type SettingsChange } from '../utils/importSchema.js';
+import { formatDays } from '../utils/schedule.js';
+
+// Open-ended sides of the range
+const EARLIEST_DATE = '0000-01-01';
+const LATEST_DATE = '9999-12-31';
+
+/**
+ * The data panel in settings: session history for a range of days as CSV
+ * for timesheets or .ics for a calendar, a JSON backup of everything, and
+ * importing a backup. An import is previewed as a dry run and only written
+ * once confirmed.
+ */
+export class DataPanel {
+  private storageManager: StorageManager;
+  private fromInput: HTMLInputElement | null;
+  private toInput: HTMLInputElement | null;
+  private statusElement: HTMLElement | null;
+  private importInput: HTMLInputElement | null;
+  private importReport: HTMLElement | null;
+  private importButton: HTMLButtonElement | null;
+  private cancelImportButton: HTMLButtonElement | null;
+  private importStatusElement: HTMLElement | null;
+  private importText: string | null = null;  // the chosen file, until imported or cancelled
+
+  constructor() {
+    this.storageManager = StorageManager.getInstance();
+    this.fromInput = document.getElementById('export-from') as HTMLInputElement | null;
+    this.toInput = document.getElementById('export-to') as HTMLInputElement | null;
+    this.statusElement = document.getElementById('data-status');
+    this.importInput = document.getElementById('import-file') as HTMLInputElement | null;
+    this.importReport = document.getElementById('import-report');
+    this.importButton = document.getElementById('import-confirm-btn') as HTMLButtonElement | null;
+    this.cancelImportButton = document.getElementById('import-cancel-btn') as HTMLButtonElement | null;
+    this.importStatusElement = document.getElementById('import-status');
+
+    this.fillRange();
+    this.bindEvents();
+  }
+
+  private bindEvents(): void {
+    document.getElementById('export-csv-btn')?.addEventListener('click', () => {
+      void this.exportSessions('csv');
+    });
+
+    document.getElementById('export-ics-btn')?.addEventListener('click', () => {
+      void this.exportSessions('ics');
+    });
+
+    document.getElementById('export-json-btn')?.addEventListener('click', () => {
+      void this.exportBackup();
+    });
+
+    this.importInput?.addEventListener('change', () => {
+      void this.readImportFile();
+    });
+
+    document.querySelectorAll<HTMLInputElement>('input[name="import-mode"]').forEach(input => {
+      input.addEventListener('change', () => {
+        if (this.importText !== null) {
+          void this.previewImport();
+        }
+      });
+    });
+
+    this.importButton?.addEventListener('click', () => {
+      void this.runImport();
+    });
+
+    this.cancelImportButton?.addEventListener('click', () => {
+      this.resetImport();
+    });
+  }
+
+  // This month so far, the usual timesheet period
+  private fillRange(): void {
+    const today = this.storageManager.getToday();
+    if (this.fromInput) {
+      this.fromInput.value = getPeriodRange('month', today).start;
+    }
+    if (this.toInput) {
+      this.toInput.value = today;
+    }
+  }
+
+  private async exportSessions(format: 'csv' | 'ics'): Promise<void> {
+    const from = this.fromInput?.value || EARLIEST_DATE;
+    const to = this.toInput?.value || LATEST_DATE;
+    if (from > to) {
+      this.flagInvalid(this.toInput);
+      this.showStatus('The end date is before the start date.');
+      return;
+    }
+
+    const sessions = await this.storageManager.getSessionsForDateRange(from, to);
+    if (sessions.length === 0) {
+      this.showStatus('No sessions in that range.');
+      return;
+    }
+
+    const name = `fokus-sessions-${this.rangeName(sessions, from, to)}`;
+    if (format === 'csv') {
+      this.download(`${name}.csv`, 'text/csv;charset=utf-8', sessionsToCsv(sessions));
+    } else {
+      this.download(`${name}.ics`, 'text/calendar;charset=utf-8', sessionsToIcs(sessions));
+    }
+    this.showStatus(`Exported ${sessions.length} session${sessions.length === 1 ? '' : 's'}.`);
+  }
+
+  private async exportBackup(): Promise<void> {
+    try {
+      const data = await this.storageManager.exportData();
+      this.download(`fokus-backup-${this.storageManager.getToday()}.json`, 'application/json', data);
+      this.showStatus('Backup downloaded.');
+    } catch (error) {
+      console.warn('Failed to export backup:', error);
+      this.showStatus('The backup could not be created.');
+    }
+  }
+
+  private async readImportFile(): Promise<void> {
+    const file = this.importInput?.files?.[0];
+    if (!file) {
+      this.resetImport();
+      return;
+    }
+
+    this.importText = await file.text();
+    await this.previewImport();
+  }
+
+  private getImportMode(): ImportMode {
+    const checked = document.querySelector<HTMLInputElement>('input[name="import-mode"]:checked');
+    return checked?.value === 'replace' ? 'replace' : 'merge';
+  }
+
+  // The dry run, shown before anything is written
+  private async previewImport(): Promise<void> {
+    if (this.importText === null) return;
+
+    try {
+      const report = await this.storageManager.previewImport(this.importText, this.getImportMode());
+      const changes = report.newSessions > 0 || report.removedSessions > 0 || report.settingsChanges.length > 0;
+      this.renderReport(report);
+      this.setImportPending(changes);
+      this.showImportStatus(changes ? '' : 'Nothing to import: everything in the file is already here.');
+    } catch (error) {
+      this.setImportPending(false);
+      this.hideReport();
+      this.showImportStatus(error instanceof ImportError ? error.message : 'The file could not be read.');
+      if (!(error instanceof ImportError)) {
+        console.warn('Failed to preview import:', error);
+      }
+    }
+  }
+
+  private async runImport(): Promise<void> {
+    if (this.importText === null) return;
+
+    this.setImportPending(false);
+    const imported = await this.storageManager.importData(this.importText, this.getImportMode());
+    this.resetImport();
+    this.showImportStatus(imported ? 'Import complete.' : 'The import failed. Nothing was changed.');
+  }
+
+  private renderReport(report: ImportReport): void {
+    if (!this.importReport) return;
+
+    const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+    const lines = [
+      `${plural(report.newSessions, 'new session')} to add`,
+      report.mode === 'merge'
+        ? `${plural(report.duplicateSessions, 'duplicate')} skipped`
+        : `${plural(report.duplicateSessions, 'duplicate')} replaced by the file's copy`,
+      `${plural(report.invalidSessions, 'invalid session')} left out`
+    ];
+    if (report.mode === 'replace') {
+      lines.push(`${plural(report.removedSessions, 'session')} here that the file doesn't have will be deleted`);
+    }
+    lines.push(report.settingsChanges.length === 0
+      ? 'Settings unchanged'
+      : `${plural(report.settingsChanges.length, 'setting')} will change:`);
+
+    const list = document.createElement('ul');
+    lines.forEach(line => {
+      const item = document.createElement('li');
+      item.textContent = line;
+      list.append(item);
+    });
+
+    if (report.settingsChanges.length > 0) {
+      const changes = document.createElement('ul');
+      report.settingsChanges.forEach(change => {
+        const item = document.createElement('li');
+        item.textContent = `${change.label}: ${this.formatSetting(change.from)} → ${this.formatSetting(change.to)}`;
+        changes.append(item);
+      });
+      list.lastElementChild?.append(changes);
+    }
+
+    report.settingsIssues.forEach(issue => {
+      const item = document.createElement('li');
+      item.className = 'import-issue';
+      item.textContent = issue.message;
+      list.append(item);
+    });
+
+    this.importReport.replaceChildren(list);
+    this.importReport.hidden = false;
+  }
+
+  private formatSetting(value: SettingsChange['from']): string {
+    if (Array.isArray(value)) return value.length > 0 ? formatDays(value) : 'none';
+    if (typeof value === 'boolean') return value ? 'on' : 'off';
+    return String(value);
+  }
+
+  private setImportPending(pending: boolean): void {
+    if (this.importButton) {
+      this.importButton.disabled = !pending;
+    }
+    if (this.cancelImportButton) {
+      this.cancelImportButton.disabled = this.importText === null;
+    }
+  }
+
+  private hideReport(): void {
+    if (this.importReport) {
+      this.importReport.hidden = true;
+      this.importReport.replaceChildren();
+    }
+  }
+
+  private resetImport(): void {
+    this.importText = null;
+    if (this.importInput) {
+      this.importInput.value = '';
+    }
+    this.hideReport();
+    this.setImportPending(false);
+  }
+
+  // Name open-ended ranges after the sessions actually in them
+  private rangeName(sessions: SessionRecord[], from: string, to: string): string {
+    const first = from === EARLIEST_DATE ? sessions[0].date : from;
+    const last = to === LATEST_DATE ? sessions[sessions.length - 1].date : to;
+    return first === last ? first : `${first}-to-${last}`;
+  }
+
+  private download(filename: string, type: string, content: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+  }
+
+  private showStatus(message: string): void {
+    if (this.statusElement) {
+      this.statusElement.textContent = message;
+    }
+  }
+
+  private showImportStatus(message: string): void {
+    if (this.importStatusElement) {
+      this.importStatusElement.textContent = message;
+    }
+  }
+
+  private flagInvalid(input: HTMLInputElement | null): void {
+    if (!input) return;
+
+    input.style.borderColor = '#EF4444';
+    setTimeout(() => {
+      input.style.borderColor = '';
+    }, 2000);
+  }
+}
\ No newline at end of file
@@ -1,17 +1,21 @@
 import { PomodoroTimer, type TimerEventData } from './Timer.js';
-import { SESSION_TYPES, TIMER_STATES } from '../utils/constants.js';
+import { SESSION_TYPES, SESSION_TYPE_LABELS, TIMER_STATES, type SessionType } from '../utils/constants.js';
 
 export class TimerDisplay {
   private timer: PomodoroTimer;
   private sessionTypeElement: HTMLElement;
   private timeDisplayElement: HTMLElement;
   private progressFillElement: HTMLElement;
+  private endsAtElement: HTMLElement | null;
+  private cyclePositionElement: HTMLElement | null;
 
   constructor(timer: PomodoroTimer) {
     this.timer = timer;
     this.sessionTypeElement = document.querySelector('.session-type') as HTMLElement;
     this.timeDisplayElement = document.querySelector('.time-display') as HTMLElement;
     this.progressFillElement = document.querySelector('.progress-fill') as HTMLElement;
+    this.endsAtElement = document.querySelector('.session-ends-at');
+    this.cyclePositionElement = document.querySelector('.cycle-position');
 
     this.timer.addEventListener('timerUpdate', this.handleTimerUpdate.bind(this));
     this.updateDisplay();
@@ -31,13 +35,18 @@ export class TimerDisplay {
       return;
     }
 
-    const { timeRemaining, sessionType, state, progress } = data;
+    const { timeRemaining, elapsed, countUp, sessionType, state, progress } = data;
+    const shownSeconds = countUp ? elapsed : timeRemaining;
 
-    // Update session type
-    this.sessionTypeElement.textContent = this.getSessionTypeText(sessionType);
+    // Update session type, using the cycle segment's own label
+    this.sessionTypeElement.textContent = data.segmentLabel || this.getSessionTypeText(sessionType);
+    this.updateCyclePosition(data);
 
     // Update time display
-    this.timeDisplayElement.textContent = this.formatTime(timeRemaining);
+    this.timeDisplayElement.textContent = this.formatTime(shownSeconds, countUp);
+
+    // Show the wall-clock time the session finishes at
+    this.updateEndsAt(data);
 
     // Update progress indicators (both circular and linear)
     this.updateProgressIndicators(progress);
@@ -49,37 +58,65 @@ export class TimerDisplay {
     this.updateVisualState(state, sessionType);
 
     // Update document title
-    this.updateDocumentTitle(timeRemaining, sessionType, state);
+    this.updateDocumentTitle(shownSeconds, countUp, sessionType, state);
   }
 
-  private updateProgressIndicators(progress: number): void {
-    // Update linear progress bar
+  private updateProgressIndicators(progress: number | null): void {
+    // Update linear progress bar; open-ended sessions get an indeterminate bar
     if (this.progressFillElement) {
-      this.progressFillElement.style.width = `${progress}%`;
+      this.progressFillElement.classList.toggle('count-up', progress === null);
+      this.progressFillElement.style.width = progress === null ? '' : `${progress}%`;
     }
   }
 
+  private updateCyclePosition({ segmentIndex, segmentCount, cycleName, cyclePosition }: TimerEventData): void {
+    if (!this.cyclePositionElement) return;
+
+    const { pomodoro, pomodoros, beforeLongBreak } = cyclePosition;
+    const set = beforeLongBreak
+      ? `Pomodoro ${pomodoro} of ${pomodoros} before long break`
+      : `Pomodoro ${pomodoro} of ${pomodoros}`;
+    this.cyclePositionElement.textContent = `${set} · segment ${segmentIndex + 1} of ${segmentCount}`;
+    this.cyclePositionElement.title = cycleName;
+  }
+
+  private updateEndsAt(data: TimerEventData): void {
+    if (!this.endsAtElement) return;
+
+    const { state, endsAt, suggestedBreakMinutes, scheduledStartAt, autoStartIn } = data;
+
+    if (autoStartIn !== null && state === TIMER_STATES.IDLE) {
+      const label = data.segmentLabel || this.getSessionTypeText(data.sessionType);
+      this.endsAtElement.textContent = `${label} starts in ${autoStartIn}s`;
+    } else if (scheduledStartAt !== null && state === TIMER_STATES.IDLE) {
+      this.endsAtElement.textContent = `Starts at ${this.formatClockTime(scheduledStartAt)}`;
+    } else if (suggestedBreakMinutes !== null && state !== TIMER_STATES.IDLE) {
+      this.endsAtElement.textContent = `Break earned: ${suggestedBreakMinutes} min`;
+    } else if (state === TIMER_STATES.RUNNING && endsAt !== null) {
+      this.endsAtElement.textContent = `Ends at ${this.formatClockTime(endsAt)}`;
+    } else {
+      this.endsAtElement.textContent = '';
+    }
+  }
+
+  private formatClockTime(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+
   private updateCircularTimerGradient(_sessionType: string): void {
     // Removed - no longer using circular timer
   }
 
   private getSessionTypeText(sessionType: string): string {
-    switch (sessionType) {
-      case SESSION_TYPES.WORK:
-        return 'Work Session';
-      case SESSION_TYPES.SHORT_BREAK:
-        return 'Short Break';
-      case SESSION_TYPES.LONG_BREAK:
-        return 'Long Break';
-      default:
-        return 'Session';
-    }
+    return SESSION_TYPE_LABELS[sessionType as SessionType] ?? 'Session';
   }
 
-  private formatTime(totalSeconds: number): string {
+  private formatTime(totalSeconds: number, countUp: boolean = false): string {
     const minutes = Math.floor(totalSeconds / 60);
     const seconds = totalSeconds % 60;
-    return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+    const time = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+    // A leading plus marks time counting up from zero rather than down
+    return countUp ? `+${time}` : time;
   }
 
   private updateVisualState(state: string, sessionType: string): void {
@@ -99,9 +136,9 @@ export class TimerDisplay {
     }
   }
 
-  private updateDocumentTitle(timeRemaining: number, sessionType: string, state: string): void {
+  private updateDocumentTitle(seconds: number, countUp: boolean, sessionType: string, state: string): void {
     if (state === TIMER_STATES.RUNNING) {
-      const timeText = this.formatTime(timeRemaining);
+      const timeText = this.formatTime(seconds, countUp);
       const sessionText = sessionType === SESSION_TYPES.WORK ? 'Work' : 'Break';
       document.title = `${timeText} - ${sessionText} | Fokus`;
     } else {
@@ -0,0 +1,130 @@
+import { PomodoroTimer, type TimerEventData } from './Timer.js';
+import { STORAGE_KEYS, TIMER_STATES } from '../utils/constants.js';
+import { StorageManager } from '../utils/storage.js';
+import type { StorageChange } from '../utils/storageAdapter.js';
+import {
+  formatFocusSchedule,
+  formatFocusWindow,
+  getActiveFocusWindow,
+  getNextFocusWindow,
+  parseFocusSchedule,
+  type FocusBlock
+} from '../utils/schedule.js';
+
+// How often to look at the clock for a block starting
+const CHECK_INTERVAL_MS = 15000;
+
+/**
+ * Planned focus blocks: the schedule editor in settings, starting work when a
+ * block begins, and the "next block" line under the timer while idle.
+ */
+export class FocusSchedule {
+  private timer: PomodoroTimer;
+  private storageManager: StorageManager;
+  private blocks: FocusBlock[];
+  private scheduleInput: HTMLTextAreaElement | null;
+  private saveButton: HTMLButtonElement | null;
+  private nextBlockElement: HTMLElement | null;
+
+  constructor(timer: PomodoroTimer) {
+    this.timer = timer;
+    this.storageManager = StorageManager.getInstance();
+    this.blocks = this.storageManager.loadFocusSchedule();
+    this.scheduleInput = document.getElementById('focus-schedule') as HTMLTextAreaElement | null;
+    this.saveButton = document.getElementById('save-schedule-btn') as HTMLButtonElement | null;
+    this.nextBlockElement = document.querySelector('.next-focus-block');
+
+    this.fillEditor();
+    this.bindEvents();
+
+    window.setInterval(() => {
+      this.checkSchedule();
+      this.updateNextBlock(this.timer.getEventData());
+    }, CHECK_INTERVAL_MS);
+  }
+
+  private bindEvents(): void {
+    this.saveButton?.addEventListener('click', () => {
+      this.saveSchedule();
+    });
+
+    this.timer.addEventListener('timerUpdate', (event: Event) => {
+      this.updateNextBlock((event as CustomEvent<TimerEventData>).detail);
+    });
+
+    // Another tab edited the schedule
+    this.storageManager.addEventListener('change', (event: Event) => {
+      const { store, key } = (event as CustomEvent<StorageChange>).detail;
+      if (store !== 'settings' || (key !== null && key !== STORAGE_KEYS.FOCUS_SCHEDULE)) return;
+
+      this.blocks = this.storageManager.loadFocusSchedule();
+      this.fillEditor();
+      this.updateNextBlock(this.timer.getEventData());
+    });
+
+    // Catch a block that began while the tab was throttled or asleep
+    document.addEventListener('visibilitychange', () => {
+      if (!document.hidden) {
+        this.checkSchedule();
+      }
+    });
+  }
+
+  private fillEditor(): void {
+    if (this.scheduleInput) {
+      this.scheduleInput.value = formatFocusSchedule(this.blocks);
+    }
+  }
+
+  private saveSchedule(): void {
+    if (!this.scheduleInput) return;
+
+    const blocks = parseFocusSchedule(this.scheduleInput.value);
+    if (!blocks) {
+      this.scheduleInput.style.borderColor = '#EF4444';
+      setTimeout(() => {
+        if (this.scheduleInput) {
+          this.scheduleInput.style.borderColor = '';
+        }
+      }, 2000);
+      return;
+    }
+
+    this.blocks = blocks;
+    this.storageManager.saveFocusSchedule(blocks);
+    this.fillEditor();
+    this.checkSchedule();
+    this.updateNextBlock(this.timer.getEventData());
+  }
+
+  /**
+   * Start the block we are inside, once per occurrence. The timer remembers
+   * which block it is working, so a reload or a manual stop doesn't start the
+   * same block over. Only the tab that owns the timer does this.
+   */
+  private checkSchedule(): void {
+    if (this.timer.isFollowing()) return;
+
+    const current = getActiveFocusWindow(this.blocks, Date.now());
+    if (!current || this.timer.getFocusBlockEndsAt() === current.endsAt) return;
+
+    this.timer.startFocusBlock(current.endsAt);
+  }
+
+  private updateNextBlock({ state, focusBlockEndsAt, scheduledStartAt }: TimerEventData): void {
+    if (!this.nextBlockElement) return;
+
+    const now = Date.now();
+
+    if (focusBlockEndsAt !== null && focusBlockEndsAt > now) {
+      const until = new Date(focusBlockEndsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      this.nextBlockElement.textContent = `Focus block until ${until}`;
+      return;
+    }
+
+    const next = state === TIMER_STATES.IDLE && scheduledStartAt === null
+      ? getNextFocusWindow(this.blocks, now)
+      : null;
+    this.nextBlockElement.textContent = next ? `Next focus block: ${formatFocusWindow(next, now)}` : '';
+  }
+}
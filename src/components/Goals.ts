@@ -0,0 +1,261 @@
+import { STORAGE_KEYS } from '../utils/constants.js';
+import { StorageManager } from '../utils/storage.js';
+import type { StorageChange } from '../utils/storageAdapter.js';
+import { AudioNotificationManager } from '../utils/audio.js';
+import { formatDate, formatMinutes } from '../utils/analytics.js';
+import { svgElement } from '../utils/charts.js';
+import {
+  evaluateGoal,
+  formatGoal,
+  formatGoals,
+  goalHitRate,
+  goalPeriodOf,
+  parseGoals,
+  recentResults,
+  updateGoalHistory,
+  type Goal,
+  type GoalResult
+} from '../utils/goals.js';
+
+// How far back the hit rates in analytics look
+const HISTORY_DAYS = 30;
+const HISTORY_WEEKS = 12;
+
+// Geometry of the met/missed strip, in viewBox units
+const CELL_SIZE = 10;
+const CELL_STEP = 13;
+
+/**
+ * Focus goals: the goals editor in settings, progress towards each in the
+ * stats strip, a celebration when one is met, and how often each has been
+ * met in analytics. The tab that records a session brings the goal history
+ * up to date; the others pick it up.
+ */
+export class Goals {
+  private storageManager: StorageManager;
+  private audioManager: AudioNotificationManager;
+  private goals: Goal[];
+  private goalsInput: HTMLTextAreaElement | null;
+  private saveButton: HTMLButtonElement | null;
+  private progressElement: HTMLElement | null;
+  private historyElement: HTMLElement | null;
+  private celebrated = new Set<string>();  // goals met by the last session, to highlight
+
+  constructor(audioManager: AudioNotificationManager) {
+    this.storageManager = StorageManager.getInstance();
+    this.audioManager = audioManager;
+    this.goals = this.storageManager.loadGoals();
+    this.goalsInput = document.getElementById('goals') as HTMLTextAreaElement | null;
+    this.saveButton = document.getElementById('save-goals-btn') as HTMLButtonElement | null;
+    this.progressElement = document.getElementById('goal-progress');
+    this.historyElement = document.getElementById('goal-history');
+
+    this.fillEditor();
+    this.bindEvents();
+    this.updateHistory(false);
+  }
+
+  private bindEvents(): void {
+    this.saveButton?.addEventListener('click', () => {
+      this.saveGoals();
+    });
+
+    document.addEventListener('sessionRecorded', () => this.updateHistory(true));
+
+    // Another tab edited the goals or recorded a session
+    this.storageManager.addEventListener('change', (event: Event) => {
+      const { store, key } = (event as CustomEvent<StorageChange>).detail;
+      if (store !== 'settings') return;
+
+      if (key === null || key === STORAGE_KEYS.GOALS) {
+        this.goals = this.storageManager.loadGoals();
+        this.fillEditor();
+      }
+      if (key === null || key === STORAGE_KEYS.GOALS || key === STORAGE_KEYS.GOAL_HISTORY || key === STORAGE_KEYS.DAILY_STATISTICS) {
+        this.render();
+      }
+    });
+
+    // Catch a new day or week starting while the tab was in the background
+    document.addEventListener('visibilitychange', () => {
+      if (!document.hidden) {
+        this.updateHistory(false);
+      }
+    });
+  }
+
+  private fillEditor(): void {
+    if (this.goalsInput) {
+      this.goalsInput.value = formatGoals(this.goals);
+    }
+  }
+
+  private saveGoals(): void {
+    if (!this.goalsInput) return;
+
+    const goals = parseGoals(this.goalsInput.value);
+    if (!goals) {
+      this.goalsInput.style.borderColor = '#EF4444';
+      setTimeout(() => {
+        if (this.goalsInput) {
+          this.goalsInput.style.borderColor = '';
+        }
+      }, 2000);
+      return;
+    }
+
+    this.goals = goals;
+    this.storageManager.saveGoals(goals);
+    this.fillEditor();
+    this.updateHistory(false);
+  }
+
+  /**
+   * Record how each goal stands now, and celebrate the ones the latest
+   * session pushed over the line. The history remembers what was already
+   * met, so a reload or a lowered target doesn't celebrate again.
+   */
+  private updateHistory(celebrate: boolean): void {
+    const today = this.storageManager.getToday();
+    const previous = this.storageManager.loadGoalHistory();
+    const history = updateGoalHistory(this.goals, previous, this.storageManager.loadDailyStatistics(), today);
+    this.storageManager.saveGoalHistory(history);
+
+    this.celebrated.clear();
+    if (celebrate) {
+      const isMet = (results: GoalResult[], goal: Goal, period: string) =>
+        results.some(result => result.goalId === goal.id && result.period === period && result.met);
+
+      this.goals.forEach(goal => {
+        const period = goalPeriodOf(goal, today);
+        if (period === null || !isMet(history, goal, period) || isMet(previous, goal, period)) return;
+
+        this.celebrated.add(goal.id);
+        void this.audioManager.playCelebration(
+          'Goal reached! 🎯',
+          `${formatGoal(goal)}: done ${goal.period === 'week' ? 'for this week' : 'for today'}.`
+        );
+      });
+    }
+
+    this.render();
+  }
+
+  private render(): void {
+    this.renderProgress();
+    this.renderHistory();
+  }
+
+  // Today's goals, and this week's, under the day's totals
+  private renderProgress(): void {
+    if (!this.progressElement) return;
+
+    const today = this.storageManager.getToday();
+    const days = this.storageManager.loadDailyStatistics();
+    const items = this.goals.flatMap(goal => {
+      const period = goalPeriodOf(goal, today);
+      return period === null ? [] : [this.progressItem(goal, evaluateGoal(goal, period, days))];
+    });
+
+    this.progressElement.replaceChildren(...items);
+    this.progressElement.hidden = items.length === 0;
+  }
+
+  private progressItem(goal: Goal, result: GoalResult): HTMLLIElement {
+    const item = document.createElement('li');
+    item.className = 'goal-item';
+    item.classList.toggle('met', result.met);
+    item.classList.toggle('celebrate', this.celebrated.has(goal.id));
+
+    const label = document.createElement('span');
+    label.className = 'goal-label';
+    label.textContent = formatGoal(goal);
+
+    const value = document.createElement('span');
+    value.className = 'goal-value';
+    value.textContent = `${this.formatAmount(goal, result.progress)} / ${this.formatAmount(goal, result.target)}`;
+
+    const bar = document.createElement('div');
+    bar.className = 'goal-bar';
+    bar.setAttribute('role', 'progressbar');
+    bar.setAttribute('aria-label', formatGoal(goal));
+    bar.setAttribute('aria-valuemin', '0');
+    bar.setAttribute('aria-valuemax', String(result.target));
+    bar.setAttribute('aria-valuenow', String(Math.min(result.progress, result.target)));
+    bar.setAttribute('aria-valuetext', value.textContent);
+    const fill = document.createElement('div');
+    fill.className = 'goal-bar-fill';
+    fill.style.width = `${Math.min(100, (result.progress / result.target) * 100)}%`;
+    bar.append(fill);
+
+    item.append(label, value, bar);
+    return item;
+  }
+
+  // Hit rates over the last month of days or quarter of weeks
+  private renderHistory(): void {
+    if (!this.historyElement) return;
+
+    if (this.goals.length === 0) {
+      const empty = document.createElement('li');
+      empty.textContent = 'Set goals in settings to see how often you meet them.';
+      this.historyElement.replaceChildren(empty);
+      return;
+    }
+
+    const today = this.storageManager.getToday();
+    const history = this.storageManager.loadGoalHistory();
+    this.historyElement.replaceChildren(...this.goals.map(goal => {
+      const weekly = goal.period === 'week';
+      const results = recentResults(history, goal, weekly ? HISTORY_WEEKS : HISTORY_DAYS);
+      const current = weekly ? goalPeriodOf(goal, today)! : today;
+      const { met, periods } = goalHitRate(results, current);
+
+      const item = document.createElement('li');
+      const label = document.createElement('strong');
+      label.textContent = formatGoal(goal);
+      const rate = document.createElement('span');
+      rate.className = 'goal-hit-rate';
+      rate.textContent = periods > 0
+        ? `${Math.round((met / periods) * 100)}% · met ${met} of the last ${periods} ${weekly ? 'week' : 'day'}${periods === 1 ? '' : 's'}`
+        : 'Nothing to go on yet';
+
+      item.append(label, rate, this.renderStrip(goal, results, current));
+      return item;
+    }));
+  }
+
+  private renderStrip(goal: Goal, results: GoalResult[], current: string): SVGSVGElement {
+    const svg = svgElement('svg', {
+      class: 'goal-strip',
+      viewBox: `0 0 ${Math.max(1, results.length) * CELL_STEP} ${CELL_SIZE}`,
+      width: Math.max(1, results.length) * CELL_STEP,
+      height: CELL_SIZE,
+      role: 'img',
+      'aria-label': `${formatGoal(goal)}, recent ${goal.period === 'week' ? 'weeks' : 'days'}`
+    });
+
+    results.forEach((result, index) => {
+      const state = result.met ? 'met' : result.period < current ? 'missed' : 'current';
+      const cell = svgElement('rect', {
+        class: `goal-cell ${state}`,
+        x: index * CELL_STEP,
+        y: 0,
+        width: CELL_SIZE,
+        height: CELL_SIZE,
+        rx: 2
+      });
+      const title = svgElement('title', {});
+      const when = formatDate(result.period, { month: 'short', day: 'numeric' });
+      title.textContent = `${goal.period === 'week' ? `Week of ${when}` : when}: ${this.formatAmount(goal, result.progress)} of ${this.formatAmount(goal, result.target)}`;
+      cell.append(title);
+      svg.append(cell);
+    });
+
+    return svg;
+  }
+
+  private formatAmount(goal: Goal, amount: number): string {
+    return goal.metric === 'sessions' ? String(amount) : formatMinutes(amount);
+  }
+}
\ No newline at end of file
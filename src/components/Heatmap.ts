@@ -0,0 +1,282 @@
+import { STORAGE_KEYS, SESSION_TYPE_LABELS, type SessionType } from '../utils/constants.js';
+import { StorageManager, type SessionRecord } from '../utils/storage.js';
+import type { StorageChange } from '../utils/storageAdapter.js';
+import { emptyDay, sessionMinutes, sessionOutcome } from '../utils/sessionLog.js';
+import { buildHeatmap, formatDate, formatMinutes, type HeatmapDay } from '../utils/analytics.js';
+import { addDays } from '../utils/dates.js';
+import { svgElement } from '../utils/charts.js';
+
+// Geometry in viewBox units
+const CELL_SIZE = 12;
+const CELL_STEP = 15;
+const LEFT_MARGIN = 30;  // weekday labels
+const TOP_MARGIN = 18;   // month labels
+
+// Rows are Monday to Sunday; only every other one is labelled, as space allows
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', ''];
+
+// Days move a week sideways and a day up or down, as the grid is laid out
+const KEY_STEPS: Record<string, number> = {
+  ArrowLeft: -7,
+  ArrowRight: 7,
+  ArrowUp: -1,
+  ArrowDown: 1
+};
+
+/**
+ * Focus minutes for each day of the last year, one cell per day. Hovering or
+ * focusing a cell shows that day's totals; clicking it, or pressing Enter,
+ * lists its sessions. Cells are reached with the arrow keys, with one of
+ * them in the tab order at a time.
+ */
+export class Heatmap {
+  private storageManager: StorageManager;
+  private container: HTMLElement | null;
+  private tooltip: HTMLElement | null;
+  private dayPanel: HTMLElement | null;
+  private cells = new Map<string, SVGRectElement>();
+  private firstDate: string = '';
+  private lastDate: string = '';
+  private focusedDate: string = '';
+
+  constructor() {
+    this.storageManager = StorageManager.getInstance();
+    this.container = document.getElementById('heatmap');
+    this.tooltip = document.getElementById('heatmap-tooltip');
+    this.dayPanel = document.getElementById('heatmap-day');
+
+    this.bindEvents();
+    this.render();
+  }
+
+  private bindEvents(): void {
+    document.addEventListener('sessionRecorded', () => this.render());
+    this.storageManager.addEventListener('change', (event: Event) => {
+      const { store, key } = (event as CustomEvent<StorageChange>).detail;
+      if (store === 'settings' && (key === null || key === STORAGE_KEYS.DAILY_STATISTICS)) {
+        this.render();
+      }
+    });
+
+    this.dayPanel?.addEventListener('click', (event) => {
+      if ((event.target as HTMLElement).closest('.heatmap-day-close')) {
+        this.closeDay();
+      }
+    });
+  }
+
+  private render(): void {
+    if (!this.container) return;
+
+    const today = this.storageManager.getToday();
+    const weeks = buildHeatmap(today, this.storageManager.loadDailyStatistics());
+    const days = weeks.flat().filter((day): day is HeatmapDay => day !== null);
+
+    this.firstDate = days[0].date;
+    this.lastDate = today;
+    if (this.focusedDate < this.firstDate || this.focusedDate > this.lastDate) {
+      this.focusedDate = today;
+    }
+    // Keep keyboard focus on its cell when a re-render replaces it
+    const hadFocus = this.container.contains(document.activeElement);
+
+    const svg = svgElement('svg', {
+      viewBox: `0 0 ${LEFT_MARGIN + weeks.length * CELL_STEP} ${TOP_MARGIN + 7 * CELL_STEP}`,
+      role: 'group',
+      'aria-label': 'Focus time per day over the last year. Use the arrow keys to move between days.'
+    });
+
+    WEEKDAY_LABELS.forEach((label, row) => {
+      if (label) {
+        svg.append(this.label(label, 0, TOP_MARGIN + row * CELL_STEP + CELL_SIZE - 2));
+      }
+    });
+
+    this.cells.clear();
+    weeks.forEach((week, column) => {
+      const x = LEFT_MARGIN + column * CELL_STEP;
+
+      // Label the first whole week of each month
+      const monday = week[0];
+      if (monday && monday.date.slice(8) <= '07') {
+        svg.append(this.label(formatDate(monday.date, { month: 'short' }), x, TOP_MARGIN - 6));
+      }
+
+      week.forEach((day, row) => {
+        if (day) {
+          svg.append(this.cell(day, x, TOP_MARGIN + row * CELL_STEP));
+        }
+      });
+    });
+
+    this.container.replaceChildren(svg);
+    if (hadFocus) {
+      this.cells.get(this.focusedDate)?.focus();
+    }
+  }
+
+  private cell(day: HeatmapDay, x: number, y: number): SVGRectElement {
+    const cell = svgElement('rect', {
+      class: `heatmap-cell level-${day.level}`,
+      x,
+      y,
+      width: CELL_SIZE,
+      height: CELL_SIZE,
+      rx: 2,
+      role: 'button',
+      tabindex: day.date === this.focusedDate ? 0 : -1,
+      'aria-label': `${formatDate(day.date, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })}: ${formatMinutes(day.minutes)} of focus`
+    });
+
+    cell.addEventListener('mouseenter', () => this.showTooltip(day.date, cell));
+    cell.addEventListener('mouseleave', () => this.hideTooltip());
+    cell.addEventListener('focus', () => {
+      this.focusedDate = day.date;
+      this.showTooltip(day.date, cell);
+    });
+    cell.addEventListener('blur', () => this.hideTooltip());
+    cell.addEventListener('click', () => void this.openDay(day.date));
+    cell.addEventListener('keydown', (event) => this.handleKeydown(event, day.date));
+
+    this.cells.set(day.date, cell);
+    return cell;
+  }
+
+  private label(text: string, x: number, y: number): SVGTextElement {
+    const label = svgElement('text', { class: 'chart-label', x, y });
+    label.textContent = text;
+    return label;
+  }
+
+  private handleKeydown(event: KeyboardEvent, date: string): void {
+    let target: string | null = null;
+
+    if (event.key in KEY_STEPS) {
+      target = addDays(date, KEY_STEPS[event.key]);
+    } else if (event.key === 'Home') {
+      target = this.firstDate;
+    } else if (event.key === 'End') {
+      target = this.lastDate;
+    } else if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      void this.openDay(date);
+      return;
+    } else if (event.key === 'Escape') {
+      this.closeDay();
+      return;
+    }
+
+    if (target === null) return;
+    event.preventDefault();
+
+    const cell = this.cells.get(target);
+    if (!cell) return;  // off either end of the year
+
+    this.cells.get(date)?.setAttribute('tabindex', '-1');
+    cell.setAttribute('tabindex', '0');
+    cell.focus();
+  }
+
+  private showTooltip(date: string, cell: SVGRectElement): void {
+    if (!this.tooltip || !this.container) return;
+
+    const stats = this.storageManager.loadDailyStatistics()[date] ?? emptyDay(date);
+    const rows: [string, string][] = [
+      ['Focus', formatMinutes(stats.focusTimeMinutes)],
+      ['Sessions', String(stats.sessionsCompleted)],
+      ['Breaks', formatMinutes(stats.breakTimeMinutes)],
+      ['Skipped', String(stats.sessionsSkipped)],
+      ['Abandoned', String(stats.sessionsAbandoned)],
+      ['Interruptions', String(stats.interruptions)],
+      ['Streak', String(stats.streak)]
+    ];
+
+    const heading = document.createElement('strong');
+    heading.textContent = formatDate(date, { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+    const list = document.createElement('dl');
+    rows.forEach(([term, value]) => {
+      const dt = document.createElement('dt');
+      dt.textContent = term;
+      const dd = document.createElement('dd');
+      dd.textContent = value;
+      list.append(dt, dd);
+    });
+    this.tooltip.replaceChildren(heading, list);
+    this.tooltip.hidden = false;
+
+    // Place it above the cell, kept inside the card
+    const bounds = this.container.getBoundingClientRect();
+    const cellBounds = cell.getBoundingClientRect();
+    const left = Math.min(cellBounds.left - bounds.left, bounds.width - this.tooltip.offsetWidth);
+    this.tooltip.style.left = `${Math.max(0, left)}px`;
+    this.tooltip.style.top = `${cellBounds.top - bounds.top}px`;
+  }
+
+  private hideTooltip(): void {
+    if (this.tooltip) {
+      this.tooltip.hidden = true;
+    }
+  }
+
+  private async openDay(date: string): Promise<void> {
+    if (!this.dayPanel) return;
+
+    const sessions = await this.storageManager.getSessionsForDate(date);
+
+    const header = document.createElement('div');
+    header.className = 'heatmap-day-header';
+    const heading = document.createElement('h3');
+    heading.textContent = formatDate(date, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+    const close = document.createElement('button');
+    close.type = 'button';
+    close.className = 'heatmap-day-close';
+    close.setAttribute('aria-label', 'Close');
+    close.textContent = '×';
+    header.append(heading, close);
+
+    const list = document.createElement('ul');
+    list.className = 'heatmap-day-sessions';
+    if (sessions.length === 0) {
+      const empty = document.createElement('li');
+      empty.textContent = 'No sessions recorded';
+      list.append(empty);
+    }
+    sessions.forEach(session => list.append(this.sessionItem(session)));
+
+    this.dayPanel.replaceChildren(header, list);
+    this.dayPanel.hidden = false;
+  }
+
+  private sessionItem(session: SessionRecord): HTMLLIElement {
+    const item = document.createElement('li');
+
+    const time = document.createElement('span');
+    time.className = 'heatmap-session-time';
+    // Recovered sessions only know their day, not when they ran
+    time.textContent = session.recovered
+      ? '—'
+      : new Date(session.startTime).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+    const details = [
+      SESSION_TYPE_LABELS[session.sessionType as SessionType] ?? session.sessionType,
+      formatMinutes(Math.round(sessionMinutes(session))),
+      sessionOutcome(session)
+    ];
+    if (session.interruptions?.length) {
+      details.push(`${session.interruptions.length} interruption${session.interruptions.length === 1 ? '' : 's'}`);
+    }
+    if (session.tags?.length) {
+      details.push(session.tags.map(tag => `#${tag}`).join(' '));
+    }
+
+    item.append(time, ` ${details.join(' · ')}`);
+    return item;
+  }
+
+  private closeDay(): void {
+    if (this.dayPanel) {
+      this.dayPanel.hidden = true;
+      this.dayPanel.replaceChildren();
+    }
+  }
+}
\ No newline at end of file
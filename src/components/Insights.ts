@@ -0,0 +1,107 @@
+import { StorageManager } from '../utils/storage.js';
+import type { StorageChange } from '../utils/storageAdapter.js';
+import { renderBarChart } from '../utils/charts.js';
+import { formatDate, formatMinutes } from '../utils/analytics.js';
+import {
+  WEEKDAY_NAMES,
+  buildInsights,
+  completionRate,
+  formatHourRange,
+  formatTimeOfDay,
+  type Insights as InsightsData,
+  type TimeBucket
+} from '../utils/insights.js';
+
+// Label every third hour so the axis stays readable
+const HOUR_LABEL_STEP = 3;
+
+/**
+ * When focus goes well: focus time and completion by hour and weekday, the
+ * usual first and last session of the day, the best streak, and suggestions
+ * drawn from all of it. Computed from the whole session log on this device.
+ */
+export class Insights {
+  private storageManager: StorageManager;
+  private hoursElement: HTMLElement | null;
+  private weekdaysElement: HTMLElement | null;
+  private firstSessionElement: HTMLElement | null;
+  private lastSessionElement: HTMLElement | null;
+  private bestStreakElement: HTMLElement | null;
+  private suggestionsElement: HTMLElement | null;
+  private loading: number = 0;  // ignores a load that finishes after a newer one started
+
+  constructor() {
+    this.storageManager = StorageManager.getInstance();
+    this.hoursElement = document.getElementById('insights-hours');
+    this.weekdaysElement = document.getElementById('insights-weekdays');
+    this.firstSessionElement = document.getElementById('insights-first-session');
+    this.lastSessionElement = document.getElementById('insights-last-session');
+    this.bestStreakElement = document.getElementById('insights-best-streak');
+    this.suggestionsElement = document.getElementById('insights-suggestions');
+
+    document.addEventListener('sessionRecorded', () => void this.refresh());
+    this.storageManager.addEventListener('change', (event: Event) => {
+      if ((event as CustomEvent<StorageChange>).detail.store === 'sessions') {
+        void this.refresh();
+      }
+    });
+
+    void this.refresh();
+  }
+
+  private async refresh(): Promise<void> {
+    const loading = ++this.loading;
+    const records = await this.storageManager.loadSessionLog();
+    if (loading !== this.loading) return;
+
+    this.render(buildInsights(records, this.storageManager.getStreakRules(), this.storageManager.getDayStartHour()));
+  }
+
+  private render(insights: InsightsData): void {
+    const hourBars = insights.byHour.map((bucket, hour) => ({
+      label: hour % HOUR_LABEL_STEP === 0 ? String(hour).padStart(2, '0') : '',
+      minutes: bucket.focusMinutes,
+      title: `${formatHourRange(hour)}: ${this.describeBucket(bucket)}`
+    }));
+    this.hoursElement?.replaceChildren(renderBarChart(hourBars, 'Focus time by hour of the day'));
+
+    const weekdayBars = insights.byWeekday.map((bucket, day) => ({
+      label: WEEKDAY_NAMES[day].slice(0, 3),
+      minutes: bucket.focusMinutes,
+      title: `${WEEKDAY_NAMES[day]}: ${this.describeBucket(bucket)}`
+    }));
+    this.weekdaysElement?.replaceChildren(renderBarChart(weekdayBars, 'Focus time by day of the week'));
+
+    if (this.firstSessionElement) {
+      this.firstSessionElement.textContent = insights.firstSessionAt === null ? '–' : formatTimeOfDay(insights.firstSessionAt);
+    }
+    if (this.lastSessionElement) {
+      this.lastSessionElement.textContent = insights.lastSessionAt === null ? '–' : formatTimeOfDay(insights.lastSessionAt);
+    }
+    if (this.bestStreakElement) {
+      const streak = insights.bestStreak;
+      this.bestStreakElement.textContent = streak ? `${streak.days}d` : '–';
+      this.bestStreakElement.title = streak
+        ? `${formatDate(streak.start, { month: 'short', day: 'numeric', year: 'numeric' })} – ${formatDate(streak.end, { month: 'short', day: 'numeric', year: 'numeric' })}`
+        : '';
+    }
+
+    if (this.suggestionsElement) {
+      const suggestions = insights.suggestions.length > 0
+        ? insights.suggestions
+        : ['Suggestions appear once an hour or weekday has a few sessions in it.'];
+      this.suggestionsElement.replaceChildren(...suggestions.map(text => {
+        const item = document.createElement('li');
+        item.textContent = text;
+        return item;
+      }));
+    }
+  }
+
+  private describeBucket(bucket: TimeBucket): string {
+    const rate = completionRate(bucket);
+    if (rate === null) return 'no sessions';
+
+    return `${formatMinutes(bucket.focusMinutes)} focus, ${Math.round(rate * 100)}% of ${bucket.attempted} session${bucket.attempted === 1 ? '' : 's'} completed`;
+  }
+}
\ No newline at end of file
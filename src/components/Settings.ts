@@ -1,24 +1,118 @@
 import { PomodoroTimer } from './Timer.js';
-import { DEFAULT_SETTINGS, type Settings } from '../utils/constants.js';
+import { DEFAULT_SETTINGS, STORAGE_KEYS, type Settings } from '../utils/constants.js';
+import { StorageManager } from '../utils/storage.js';
+import type { StorageChange } from '../utils/storageAdapter.js';
+import {
+  CLASSIC_CYCLE_ID,
+  PRESET_CYCLES,
+  buildClassicCycle,
+  formatCycleSegments,
+  parseCycleSegments,
+  type CycleTemplate
+} from '../utils/cycles.js';
+import {
+  BUILT_IN_PROFILES,
+  CLASSIC_PROFILE_ID,
+  CUSTOM_PROFILE_ID,
+  matchesProfile,
+  pickProfileSettings,
+  type SettingsProfile
+} from '../utils/profiles.js';
+import type { SettingsIssue } from '../utils/settingsSchema.js';
+import { formatDays, parseDays } from '../utils/schedule.js';
 
 export class SettingsManager {
   private timer: PomodoroTimer;
   private workDurationInput: HTMLInputElement;
   private shortBreakInput: HTMLInputElement;
   private longBreakInput: HTMLInputElement;
+  private sessionsUntilLongBreakInput: HTMLInputElement;
   private autoStartInput: HTMLInputElement;
+  private autoStartWorkInput: HTMLInputElement;
+  private autoStartBreaksDelayInput: HTMLInputElement;
+  private autoStartWorkDelayInput: HTMLInputElement;
+  private autoStartLimitInput: HTMLInputElement;
+  private cycleResetIdleInput: HTMLInputElement;
+  private cycleResetDailyInput: HTMLInputElement;
+  private dayStartHourInput: HTMLInputElement;
+  private streakRestDaysInput: HTMLInputElement;
+  private streakFreezesInput: HTMLInputElement;
   private soundEnabledInput: HTMLInputElement;
+  private flowtimeEnabledInput: HTMLInputElement;
+  private flowtimeRatioInput: HTMLInputElement;
+  private interruptionVoidsInput: HTMLInputElement;
+  private extendMinutesInput: HTMLInputElement;
+  private snoozeMinutesInput: HTMLInputElement;
+  private cycleSelect: HTMLSelectElement;
+  private cycleNameInput: HTMLInputElement;
+  private cycleSegmentsInput: HTMLTextAreaElement;
+  private saveCycleBtn: HTMLButtonElement;
+  private deleteCycleBtn: HTMLButtonElement;
+  private storageManager: StorageManager;
+  private customCycles: CycleTemplate[];
+  private profileSelect: HTMLSelectElement;
+  private profileNameInput: HTMLInputElement;
+  private saveProfileBtn: HTMLButtonElement;
+  private deleteProfileBtn: HTMLButtonElement;
+  private customProfiles: SettingsProfile[];
+  private editedProfileId: string = CLASSIC_PROFILE_ID;  // the profile the editor saves over
+  private issuesElement: HTMLElement | null;
 
   constructor(timer: PomodoroTimer) {
     this.timer = timer;
     this.workDurationInput = document.getElementById('work-duration') as HTMLInputElement;
     this.shortBreakInput = document.getElementById('short-break') as HTMLInputElement;
     this.longBreakInput = document.getElementById('long-break') as HTMLInputElement;
+    this.sessionsUntilLongBreakInput = document.getElementById('sessions-until-long-break') as HTMLInputElement;
     this.autoStartInput = document.getElementById('auto-start') as HTMLInputElement;
+    this.autoStartWorkInput = document.getElementById('auto-start-work') as HTMLInputElement;
+    this.autoStartBreaksDelayInput = document.getElementById('auto-start-breaks-delay') as HTMLInputElement;
+    this.autoStartWorkDelayInput = document.getElementById('auto-start-work-delay') as HTMLInputElement;
+    this.autoStartLimitInput = document.getElementById('auto-start-limit') as HTMLInputElement;
+    this.cycleResetIdleInput = document.getElementById('cycle-reset-idle') as HTMLInputElement;
+    this.cycleResetDailyInput = document.getElementById('cycle-reset-daily') as HTMLInputElement;
+    this.dayStartHourInput = document.getElementById('day-start-hour') as HTMLInputElement;
+    this.streakRestDaysInput = document.getElementById('streak-rest-days') as HTMLInputElement;
+    this.streakFreezesInput = document.getElementById('streak-freezes') as HTMLInputElement;
     this.soundEnabledInput = document.getElementById('sound-enabled') as HTMLInputElement;
+    this.flowtimeEnabledInput = document.getElementById('flowtime-enabled') as HTMLInputElement;
+    this.flowtimeRatioInput = document.getElementById('flowtime-ratio') as HTMLInputElement;
+    this.interruptionVoidsInput = document.getElementById('interruption-voids') as HTMLInputElement;
+    this.extendMinutesInput = document.getElementById('extend-minutes') as HTMLInputElement;
+    this.snoozeMinutesInput = document.getElementById('snooze-minutes') as HTMLInputElement;
+    this.cycleSelect = document.getElementById('cycle-template') as HTMLSelectElement;
+    this.cycleNameInput = document.getElementById('cycle-name') as HTMLInputElement;
+    this.cycleSegmentsInput = document.getElementById('cycle-segments') as HTMLTextAreaElement;
+    this.saveCycleBtn = document.getElementById('save-cycle-btn') as HTMLButtonElement;
+    this.deleteCycleBtn = document.getElementById('delete-cycle-btn') as HTMLButtonElement;
+    this.profileSelect = document.getElementById('settings-profile') as HTMLSelectElement;
+    this.profileNameInput = document.getElementById('profile-name') as HTMLInputElement;
+    this.saveProfileBtn = document.getElementById('save-profile-btn') as HTMLButtonElement;
+    this.deleteProfileBtn = document.getElementById('delete-profile-btn') as HTMLButtonElement;
+    this.issuesElement = document.getElementById('settings-issues');
+
+    this.storageManager = StorageManager.getInstance();
+    this.customCycles = this.storageManager.loadCycleTemplates();
+    this.customProfiles = this.storageManager.loadSettingsProfiles();
 
     this.loadSettings();
     this.bindEvents();
+    this.listenForOtherTabs();
+  }
+
+  // Settings saved in another tab apply here too, including to the timer
+  // when this tab is the one that owns it
+  private listenForOtherTabs(): void {
+    this.storageManager.addEventListener('change', (event: Event) => {
+      const { store, key } = (event as CustomEvent<StorageChange>).detail;
+      const keys: (string | null)[] = [null, STORAGE_KEYS.SETTINGS, STORAGE_KEYS.CYCLE_TEMPLATES, STORAGE_KEYS.SETTINGS_PROFILES];
+      if (store !== 'settings' || !keys.includes(key)) return;
+
+      this.customCycles = this.storageManager.loadCycleTemplates();
+      this.customProfiles = this.storageManager.loadSettingsProfiles();
+      this.loadSettings();
+      document.dispatchEvent(new CustomEvent('settingsChanged', { detail: this.getSettings() }));
+    });
   }
 
   private bindEvents(): void {
@@ -35,18 +129,94 @@ export class SettingsManager {
     this.workDurationInput.addEventListener('input', handleInputChange);
     this.shortBreakInput.addEventListener('input', handleInputChange);
     this.longBreakInput.addEventListener('input', handleInputChange);
+    this.sessionsUntilLongBreakInput.addEventListener('input', handleInputChange);
+    this.flowtimeRatioInput.addEventListener('input', handleInputChange);
+    this.extendMinutesInput.addEventListener('input', handleInputChange);
+    this.snoozeMinutesInput.addEventListener('input', handleInputChange);
+    this.autoStartBreaksDelayInput.addEventListener('input', handleInputChange);
+    this.autoStartWorkDelayInput.addEventListener('input', handleInputChange);
+    this.autoStartLimitInput.addEventListener('input', handleInputChange);
+    this.cycleResetIdleInput.addEventListener('input', handleInputChange);
+    this.dayStartHourInput.addEventListener('input', handleInputChange);
+    this.streakFreezesInput.addEventListener('input', handleInputChange);
 
     // Checkboxes don't need debouncing
     this.autoStartInput.addEventListener('change', () => {
       this.saveAndApplySettings();
     });
 
+    this.autoStartWorkInput.addEventListener('change', () => {
+      this.saveAndApplySettings();
+    });
+
+    this.cycleResetDailyInput.addEventListener('change', () => {
+      this.saveAndApplySettings();
+    });
+
     this.soundEnabledInput.addEventListener('change', () => {
       this.saveAndApplySettings();
     });
 
+    this.flowtimeEnabledInput.addEventListener('change', () => {
+      this.saveAndApplySettings();
+    });
+
+    this.interruptionVoidsInput.addEventListener('change', () => {
+      this.saveAndApplySettings();
+    });
+
+    this.streakRestDaysInput.addEventListener('change', () => {
+      if (this.parseRestDays() === null) {
+        this.streakRestDaysInput.style.borderColor = '#EF4444';
+        setTimeout(() => {
+          this.streakRestDaysInput.style.borderColor = '';
+        }, 2000);
+        return;
+      }
+      this.saveAndApplySettings();
+    });
+
+    this.cycleSelect.addEventListener('change', () => {
+      this.fillCycleEditor();
+      this.saveAndApplySettings();
+    });
+
+    this.profileSelect.addEventListener('change', () => {
+      this.applySelectedProfile();
+    });
+
+    this.saveProfileBtn.addEventListener('click', () => {
+      this.saveCustomProfile();
+    });
+
+    this.deleteProfileBtn.addEventListener('click', () => {
+      this.deleteCustomProfile();
+    });
+
+    this.saveCycleBtn.addEventListener('click', () => {
+      this.saveCustomCycle();
+    });
+
+    this.deleteCycleBtn.addEventListener('click', () => {
+      this.deleteCustomCycle();
+    });
+
     // Validate inputs on blur
-    [this.workDurationInput, this.shortBreakInput, this.longBreakInput].forEach(input => {
+    [
+      this.workDurationInput,
+      this.shortBreakInput,
+      this.longBreakInput,
+      this.sessionsUntilLongBreakInput,
+      this.flowtimeRatioInput,
+      this.extendMinutesInput,
+      this.snoozeMinutesInput,
+      this.autoStartBreaksDelayInput,
+      this.autoStartWorkDelayInput,
+      this.autoStartLimitInput,
+      this.cycleResetIdleInput,
+      this.dayStartHourInput,
+      this.streakFreezesInput
+    ].forEach(input => {
       input.addEventListener('blur', () => {
         this.validateInput(input);
       });
@@ -66,29 +236,190 @@ export class SettingsManager {
   }
 
   private loadSettings(): void {
-    const saved = localStorage.getItem('fokus_settings');
-    let settings: Settings;
-
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        settings = { ...DEFAULT_SETTINGS, ...parsed };
-      } catch {
-        settings = { ...DEFAULT_SETTINGS };
-      }
-    } else {
-      settings = { ...DEFAULT_SETTINGS };
-    }
+    const { settings, issues } = this.storageManager.loadSettings();
+
+    this.fillInputs(settings);
+    this.reportIssues(issues);
 
-    // Apply to UI
+    // Apply to timer
+    this.timer.updateSettings(settings);
+    this.timer.setCycle(this.getSelectedCycle());
+    this.fillCycleEditor();
+  }
+
+  private fillInputs(settings: Settings): void {
     this.workDurationInput.value = settings.workDuration.toString();
     this.shortBreakInput.value = settings.shortBreak.toString();
     this.longBreakInput.value = settings.longBreak.toString();
+    this.sessionsUntilLongBreakInput.value = settings.sessionsUntilLongBreak.toString();
     this.autoStartInput.checked = settings.autoStartBreaks;
+    this.autoStartWorkInput.checked = settings.autoStartWork;
+    this.autoStartBreaksDelayInput.value = settings.autoStartBreaksDelay.toString();
+    this.autoStartWorkDelayInput.value = settings.autoStartWorkDelay.toString();
+    this.autoStartLimitInput.value = settings.autoStartLimit.toString();
+    this.cycleResetIdleInput.value = settings.cycleResetIdleMinutes.toString();
+    this.cycleResetDailyInput.checked = settings.cycleResetDaily;
+    this.dayStartHourInput.value = settings.dayStartHour.toString();
+    this.streakRestDaysInput.value = formatDays(settings.streakRestDays);
+    this.streakFreezesInput.value = settings.streakFreezesPerMonth.toString();
     this.soundEnabledInput.checked = settings.soundEnabled;
+    this.flowtimeEnabledInput.checked = settings.flowtimeEnabled;
+    this.flowtimeRatioInput.value = Math.round(settings.flowtimeBreakRatio * 100).toString();
+    this.interruptionVoidsInput.checked = settings.interruptionVoidsPomodoro;
+    this.extendMinutesInput.value = settings.extendMinutes.toString();
+    this.snoozeMinutesInput.value = settings.snoozeMinutes.toString();
+    this.renderCycleOptions(settings.cycleTemplateId);
+    this.renderProfileOptions(settings.profileId);
+    this.fillProfileEditor();
+  }
 
-    // Apply to timer
-    this.timer.updateSettings(settings);
+  private getAllProfiles(): SettingsProfile[] {
+    return [...BUILT_IN_PROFILES, ...this.customProfiles];
+  }
+
+  private renderProfileOptions(selectedId: string): void {
+    const profiles = this.getAllProfiles();
+    this.profileSelect.innerHTML = '';
+
+    profiles.forEach(profile => {
+      const option = document.createElement('option');
+      option.value = profile.id;
+      option.textContent = profile.name;
+      this.profileSelect.appendChild(option);
+    });
+
+    // Only ever selected by changing a setting, never picked
+    const custom = document.createElement('option');
+    custom.value = CUSTOM_PROFILE_ID;
+    custom.textContent = 'Custom (unsaved)';
+    custom.hidden = true;
+    this.profileSelect.appendChild(custom);
+
+    const known = selectedId === CUSTOM_PROFILE_ID || profiles.some(profile => profile.id === selectedId);
+    this.profileSelect.value = known ? selectedId : CLASSIC_PROFILE_ID;
+  }
+
+  private fillProfileEditor(): void {
+    const profile = this.getAllProfiles().find(p => p.id === this.profileSelect.value);
+    const isCustom = profile !== undefined && !profile.builtIn;
+
+    this.editedProfileId = this.profileSelect.value;
+    this.profileNameInput.value = isCustom ? profile.name : '';
+    this.saveProfileBtn.textContent = isCustom ? 'Update Profile' : 'Save as Profile';
+    this.deleteProfileBtn.disabled = !isCustom;
+  }
+
+  // Switching profile swaps in its durations, auto-start and sound options
+  private applySelectedProfile(): void {
+    const profile = this.getAllProfiles().find(p => p.id === this.profileSelect.value);
+    if (!profile) return;
+
+    this.fillInputs({ ...this.getSettings(), ...profile.settings, profileId: profile.id });
+    this.saveAndApplySettings();
+  }
+
+  // Built-in profiles are starting points; saving one makes a new custom profile
+  private saveCustomProfile(): void {
+    const name = this.profileNameInput.value.trim() || 'My profile';
+    const settings = pickProfileSettings(this.getSettings());
+    const existing = this.customProfiles.find(profile => profile.id === this.editedProfileId);
+
+    if (existing) {
+      existing.name = name;
+      existing.settings = settings;
+    } else {
+      this.customProfiles.push({ id: `profile_${Date.now()}`, name, settings });
+    }
+
+    this.storageManager.saveSettingsProfiles(this.customProfiles);
+    this.renderProfileOptions(existing?.id ?? this.customProfiles[this.customProfiles.length - 1].id);
+    this.fillProfileEditor();
+    this.saveAndApplySettings();
+  }
+
+  private deleteCustomProfile(): void {
+    const id = this.editedProfileId;
+    const remaining = this.customProfiles.filter(profile => profile.id !== id);
+    if (remaining.length === this.customProfiles.length) return;
+
+    this.customProfiles = remaining;
+    this.storageManager.saveSettingsProfiles(this.customProfiles);
+    this.renderProfileOptions(CLASSIC_PROFILE_ID);
+    this.applySelectedProfile();
+  }
+
+  private getAllCycles(): CycleTemplate[] {
+    return [buildClassicCycle(this.timer.getSettings()), ...PRESET_CYCLES, ...this.customCycles];
+  }
+
+  // Classic is passed to the timer as null so it follows the duration inputs
+  private getSelectedCycle(): CycleTemplate | null {
+    const id = this.cycleSelect.value;
+    if (id === CLASSIC_CYCLE_ID) return null;
+    return this.getAllCycles().find(cycle => cycle.id === id) ?? null;
+  }
+
+  private renderCycleOptions(selectedId: string): void {
+    const cycles = this.getAllCycles();
+    this.cycleSelect.innerHTML = '';
+
+    cycles.forEach(cycle => {
+      const option = document.createElement('option');
+      option.value = cycle.id;
+      option.textContent = cycle.name;
+      this.cycleSelect.appendChild(option);
+    });
+
+    this.cycleSelect.value = cycles.some(cycle => cycle.id === selectedId) ? selectedId : CLASSIC_CYCLE_ID;
+  }
+
+  private fillCycleEditor(): void {
+    const cycle = this.getAllCycles().find(c => c.id === this.cycleSelect.value);
+    const isCustom = cycle !== undefined && !cycle.builtIn;
+
+    // Built-in cycles double as starting points for a new custom one
+    this.cycleNameInput.value = isCustom ? cycle.name : '';
+    this.cycleSegmentsInput.value = cycle ? formatCycleSegments(cycle.segments) : '';
+    this.saveCycleBtn.textContent = isCustom ? 'Update Cycle' : 'Save Cycle';
+    this.deleteCycleBtn.disabled = !isCustom;
+  }
+
+  private saveCustomCycle(): void {
+    const segments = parseCycleSegments(this.cycleSegmentsInput.value);
+    if (!segments) {
+      this.cycleSegmentsInput.style.borderColor = '#EF4444';
+      setTimeout(() => {
+        this.cycleSegmentsInput.style.borderColor = '';
+      }, 2000);
+      return;
+    }
+
+    const name = this.cycleNameInput.value.trim() || 'Custom cycle';
+    const existing = this.customCycles.find(cycle => cycle.id === this.cycleSelect.value);
+
+    if (existing) {
+      existing.name = name;
+      existing.segments = segments;
+    } else {
+      this.customCycles.push({ id: `cycle_${Date.now()}`, name, segments });
+    }
+
+    this.storageManager.saveCycleTemplates(this.customCycles);
+    this.renderCycleOptions(existing?.id ?? this.customCycles[this.customCycles.length - 1].id);
+    this.fillCycleEditor();
+    this.saveAndApplySettings();
+  }
+
+  private deleteCustomCycle(): void {
+    const id = this.cycleSelect.value;
+    const remaining = this.customCycles.filter(cycle => cycle.id !== id);
+    if (remaining.length === this.customCycles.length) return;
+
+    this.customCycles = remaining;
+    this.storageManager.saveCycleTemplates(this.customCycles);
+    this.renderCycleOptions(CLASSIC_CYCLE_ID);
+    this.fillCycleEditor();
+    this.saveAndApplySettings();
   }
 
   private saveAndApplySettings(): void {
@@ -96,43 +427,84 @@ export class SettingsManager {
     this.validateInput(this.workDurationInput);
     this.validateInput(this.shortBreakInput);
     this.validateInput(this.longBreakInput);
+    this.validateInput(this.sessionsUntilLongBreakInput);
+    this.validateInput(this.flowtimeRatioInput);
+    this.validateInput(this.extendMinutesInput);
+    this.validateInput(this.snoozeMinutesInput);
+    this.validateInput(this.autoStartBreaksDelayInput);
+    this.validateInput(this.autoStartWorkDelayInput);
+    this.validateInput(this.autoStartLimitInput);
+    this.validateInput(this.cycleResetIdleInput);
+    this.validateInput(this.dayStartHourInput);
+    this.validateInput(this.streakFreezesInput);
 
-    const settings: Settings = {
-      workDuration: parseInt(this.workDurationInput.value),
-      shortBreak: parseInt(this.shortBreakInput.value),
-      longBreak: parseInt(this.longBreakInput.value),
-      autoStartBreaks: this.autoStartInput.checked,
-      soundEnabled: this.soundEnabledInput.checked,
-      sessionsUntilLongBreak: DEFAULT_SETTINGS.sessionsUntilLongBreak
-    };
+    // Once a setting no longer matches the profile, it's no longer that profile.
+    // The editor stays on it, so the change can still be saved over it.
+    const profile = this.getAllProfiles().find(p => p.id === this.profileSelect.value);
+    if (profile && !matchesProfile(this.getSettings(), profile)) {
+      this.profileSelect.value = CUSTOM_PROFILE_ID;
+    }
 
-    // Save to localStorage
-    localStorage.setItem('fokus_settings', JSON.stringify(settings));
+    // Save through the schema so only valid settings reach the timer
+    const { settings, issues } = this.storageManager.saveSettings(this.getSettings());
+    if (issues.length > 0) {
+      this.fillInputs(settings);
+    }
+    this.reportIssues(issues);
 
     // Apply to timer
     this.timer.updateSettings(settings);
+    this.timer.setCycle(this.getSelectedCycle());
 
     // Dispatch event for other components that might need to know
     document.dispatchEvent(new CustomEvent('settingsChanged', { detail: settings }));
   }
 
+  // Show what was repaired so a reset value doesn't come as a surprise
+  private reportIssues(issues: SettingsIssue[]): void {
+    issues.forEach(issue => console.warn('Settings:', issue.message, issue.value));
+
+    if (this.issuesElement) {
+      this.issuesElement.textContent = issues.map(issue => issue.message).join(' ');
+    }
+  }
+
   public getSettings(): Settings {
     return {
       workDuration: parseInt(this.workDurationInput.value),
       shortBreak: parseInt(this.shortBreakInput.value),
       longBreak: parseInt(this.longBreakInput.value),
       autoStartBreaks: this.autoStartInput.checked,
+      autoStartWork: this.autoStartWorkInput.checked,
+      autoStartBreaksDelay: parseInt(this.autoStartBreaksDelayInput.value),
+      autoStartWorkDelay: parseInt(this.autoStartWorkDelayInput.value),
+      autoStartLimit: parseInt(this.autoStartLimitInput.value),
+      cycleResetIdleMinutes: parseInt(this.cycleResetIdleInput.value),
+      cycleResetDaily: this.cycleResetDailyInput.checked,
       soundEnabled: this.soundEnabledInput.checked,
-      sessionsUntilLongBreak: DEFAULT_SETTINGS.sessionsUntilLongBreak
+      sessionsUntilLongBreak: parseInt(this.sessionsUntilLongBreakInput.value),
+      profileId: this.profileSelect.value,
+      cycleTemplateId: this.cycleSelect.value,
+      flowtimeEnabled: this.flowtimeEnabledInput.checked,
+      flowtimeBreakRatio: parseInt(this.flowtimeRatioInput.value) / 100,
+      interruptionVoidsPomodoro: this.interruptionVoidsInput.checked,
+      extendMinutes: parseInt(this.extendMinutesInput.value),
+      snoozeMinutes: parseInt(this.snoozeMinutesInput.value),
+      dayStartHour: parseInt(this.dayStartHourInput.value),
+      // Text that doesn't parse keeps the rest days already saved
+      streakRestDays: this.parseRestDays() ?? this.timer.getSettings().streakRestDays,
+      streakFreezesPerMonth: parseInt(this.streakFreezesInput.value)
     };
   }
 
+  private parseRestDays(): number[] | null {
+    const text = this.streakRestDaysInput.value.replace(/\s+/g, '').toLowerCase();
+    return text === '' ? [] : parseDays(text);
+  }
+
   public resetToDefaults(): void {
-    this.workDurationInput.value = DEFAULT_SETTINGS.workDuration.toString();
-    this.shortBreakInput.value = DEFAULT_SETTINGS.shortBreak.toString();
-    this.longBreakInput.value = DEFAULT_SETTINGS.longBreak.toString();
-    this.autoStartInput.checked = DEFAULT_SETTINGS.autoStartBreaks;
-    this.soundEnabledInput.checked = DEFAULT_SETTINGS.soundEnabled;
+    this.fillInputs(DEFAULT_SETTINGS);
+    this.fillCycleEditor();
 
     this.saveAndApplySettings();
   }
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PomodoroTimer, TimerTransitionError, type TimerEventData } from './Timer.js';
+import { ManualClock } from '../utils/clock.js';
+import { SESSION_TYPES, TIMER_STATES, type SessionType } from '../utils/constants.js';
+
+const MINUTE = 60 * 1000;
+
+// Long enough after a session ends for the timer to move on to the next one
+const ADVANCE_MS = 1000;
+
+describe('PomodoroTimer', () => {
+  let clock: ManualClock;
+  let timer: PomodoroTimer;
+
+  beforeEach(() => {
+    // Midday, well clear of the daily cycle reset
+    clock = new ManualClock(new Date(2024, 0, 15, 12).getTime());
+    timer = new PomodoroTimer({}, { clock, scheduler: clock, snapshotStore: null });
+  });
+
+  // Run the waiting session to its end and on to the next one
+  const runSession = () => {
+    expect(timer.start()).toBe(true);
+    clock.advance(timer.getTimeRemaining() * 1000 + ADVANCE_MS);
+  };
+
+  const listen = <T = TimerEventData>(type: string) => {
+    const events: T[] = [];
+    timer.addEventListener(type, (event: Event) => {
+      events.push((event as CustomEvent<T>).detail);
+    });
+    return events;
+  };
+
+  it('works through the classic cycle and back to the start', () => {
+    const completed = listen('sessionCompleted');
+    const order: SessionType[] = [];
+
+    for (let i = 0; i < 8; i++) {
+      order.push(timer.getSessionType());
+      runSession();
+    }
+
+    const { WORK, SHORT_BREAK, LONG_BREAK } = SESSION_TYPES;
+    expect(order).toEqual([WORK, SHORT_BREAK, WORK, SHORT_BREAK, WORK, SHORT_BREAK, WORK, LONG_BREAK]);
+    expect(completed.map(event => event.sessionType)).toEqual(order);
+    expect(timer.getSessionType()).toBe(WORK);
+    expect(timer.getState()).toBe(TIMER_STATES.IDLE);
+    expect(timer.getSessionsCompleted()).toBe(4);
+  });
+
+  it('counts each session from its own settings', () => {
+    timer.updateSettings({ workDuration: 50, shortBreak: 10 });
+
+    expect(timer.getTimeRemaining()).toBe(50 * 60);
+    runSession();
+    expect(timer.getSessionType()).toBe(SESSION_TYPES.SHORT_BREAK);
+    expect(timer.getTimeRemaining()).toBe(10 * 60);
+  });
+
+  it('rejects a second start', () => {
+    const rejected = listen<TimerTransitionError>('transitionRejected');
+    timer.start();
+
+    expect(timer.start()).toBe(false);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0]).toBeInstanceOf(TimerTransitionError);
+    expect(rejected[0].from).toBe(TIMER_STATES.RUNNING);
+
+    // Still one countdown, not two racing each other
+    clock.advance(10 * 1000);
+    expect(timer.getTimeRemaining()).toBe(25 * 60 - 10);
+  });
+
+  it('pushes the deadline back by the time spent paused', () => {
+    timer.start();
+    const endsAt = timer.getEndsAt()!;
+
+    clock.advance(5 * MINUTE);
+    timer.pause();
+    clock.advance(3 * MINUTE);
+    expect(timer.getTimeRemaining()).toBe(20 * 60);
+
+    timer.resume();
+    expect(timer.getEndsAt()).toBe(endsAt + 3 * MINUTE);
+
+    clock.advance(20 * MINUTE - 1000);
+    expect(timer.getState()).toBe(TIMER_STATES.RUNNING);
+    clock.advance(1000);
+    expect(timer.getState()).toBe(TIMER_STATES.COMPLETED);
+  });
+
+  it('warns once when a session is about to end, in time to extend it', () => {
+    const ending = listen('sessionEnding');
+    timer.start();
+
+    clock.advance(24 * MINUTE - 1000);
+    expect(ending).toHaveLength(0);
+    clock.advance(1000);
+    expect(ending).toHaveLength(1);
+    expect(ending[0].timeRemaining).toBe(60);
+
+    expect(timer.extend(5)).toBe(true);
+    clock.advance(5 * MINUTE);
+    expect(ending).toHaveLength(2);
+    clock.advance(MINUTE);
+    expect(timer.getState()).toBe(TIMER_STATES.COMPLETED);
+    expect(ending).toHaveLength(2);
+  });
+
+  it('skips a running session without counting it', () => {
+    const completed = listen('sessionCompleted');
+    const skipped = listen('sessionSkipped');
+    timer.start();
+    clock.advance(10 * MINUTE);
+
+    expect(timer.skip()).toBe(true);
+    expect(timer.getState()).toBe(TIMER_STATES.COMPLETED);
+    expect(skipped).toHaveLength(1);
+    expect(skipped[0].endsAt).toBe(clock.now());
+    expect(skipped[0].elapsed).toBe(10 * 60);
+
+    clock.advance(ADVANCE_MS);
+    expect(completed).toHaveLength(0);
+    expect(timer.getSessionsCompleted()).toBe(0);
+    expect(timer.getSessionType()).toBe(SESSION_TYPES.SHORT_BREAK);
+    expect(timer.getState()).toBe(TIMER_STATES.IDLE);
+  });
+
+  it('skips an idle session straight to the next one', () => {
+    const skipped = listen('sessionSkipped');
+
+    expect(timer.skip()).toBe(true);
+    expect(skipped).toHaveLength(1);
+    expect(timer.getSessionType()).toBe(SESSION_TYPES.SHORT_BREAK);
+    expect(timer.getState()).toBe(TIMER_STATES.IDLE);
+    expect(timer.getTimeRemaining()).toBe(5 * 60);
+    expect(clock.getPendingTaskCount()).toBe(0);
+  });
+
+  it('catches up after the clock jumps past the deadline', () => {
+    const completed = listen('sessionCompleted');
+    timer.start();
+    const endsAt = timer.getEndsAt()!;
+
+    // The laptop sleeps through the end of the session
+    clock.jump(40 * MINUTE);
+    expect(completed).toHaveLength(0);
+
+    timer.sync();
+    expect(completed).toHaveLength(1);
+    expect(timer.getState()).toBe(TIMER_STATES.COMPLETED);
+    expect(timer.getEndsAt()).toBe(endsAt);
+    expect(completed[0].endsAt).toBe(endsAt);
+    expect(completed[0].elapsed).toBe(25 * 60);
+
+    clock.advance(ADVANCE_MS);
+    expect(timer.getSessionType()).toBe(SESSION_TYPES.SHORT_BREAK);
+  });
+});
\ No newline at end of file
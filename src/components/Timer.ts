@@ -1,158 +1,1103 @@
-import { SESSION_TYPES, TIMER_STATES, DEFAULT_SETTINGS, type SessionType, type TimerState, type Settings } from '../utils/constants.js';
+import {
+  SESSION_TYPES,
+  TIMER_STATES,
+  TIMER_ACTIONS,
+  DEFAULT_SETTINGS,
+  type SessionType,
+  type TimerState,
+  type TimerAction,
+  type InterruptionType,
+  type Settings
+} from '../utils/constants.js';
+import { StorageManager, type Interruption, type TimerSnapshot } from '../utils/storage.js';
+import { systemClock, type Clock, type Scheduler, type TaskHandle } from '../utils/clock.js';
+import { toDateKey } from '../utils/dates.js';
+import {
+  buildClassicCycle,
+  getCyclePosition,
+  CLASSIC_CYCLE_ID,
+  type CyclePosition,
+  type CycleSegment,
+  type CycleTemplate
+} from '../utils/cycles.js';
 
 export interface TimerEventData {
   timeRemaining: number;
+  elapsed: number;          // seconds focused so far, paused time excluded
+  countUp: boolean;         // open-ended flowtime session with no deadline
   sessionType: SessionType;
   state: TimerState;
   sessionsCompleted: number;
-  progress: number;
+  progress: number | null;  // null when the session has no fixed length
+  startedAt: number | null; // epoch ms when the session was first started
+  endsAt: number | null;    // epoch ms when the session is due to end
+  pausedMs: number;         // total time spent paused in this session
+  pauseCount: number;
+  interruptions: Interruption[];
+  extensionCount: number;
+  extendedSeconds: number;
+  scheduledStartAt: number | null; // epoch ms a snoozed or postponed session starts at
+  autoStartIn: number | null;       // seconds left before the session starts by itself
+  focusBlockEndsAt: number | null;  // epoch ms the scheduled focus block being worked ends
+  cycleName: string;
+  segmentLabel: string;
+  segmentIndex: number;     // zero-based position in the cycle
+  segmentCount: number;
+  cyclePosition: CyclePosition;
+  suggestedBreakMinutes: number | null;
 }
 
+export type SessionEventType =
+  | 'sessionStarted'
+  | 'sessionPaused'
+  | 'sessionEnding'
+  | 'sessionCompleted'
+  | 'sessionSkipped'
+  | 'sessionAbandoned';
+
+export type TimerSnapshotStore = Pick<StorageManager, 'saveTimerSnapshot' | 'clearTimerSnapshot'>;
+
+// Control actions a tab that does not own the timer passes on to the one that does
+export type TimerCommandMethod =
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'reset'
+  | 'skip'
+  | 'finish'
+  | 'extend'
+  | 'snooze'
+  | 'postpone'
+  | 'cancelScheduledStart'
+  | 'logInterruption'
+  | 'startFocusBlock';
+
+export interface TimerCommand {
+  method: TimerCommandMethod;
+  args: unknown[];
+}
+
+export interface TimerRemote {
+  send(command: TimerCommand): void;
+}
+
+export interface TimerOptions {
+  clock?: Clock;
+  scheduler?: Scheduler;
+  // Pass null to keep the timer from persisting anything (headless runs)
+  snapshotStore?: TimerSnapshotStore | null;
+  // Start out following a timer owned elsewhere, see follow()
+  remote?: TimerRemote;
+}
+
+export class TimerTransitionError extends Error {
+  public readonly action: TimerAction;
+  public readonly from: TimerState;
+
+  constructor(action: TimerAction, from: TimerState) {
+    super(`Cannot ${action} the timer while it is ${from}`);
+    this.name = 'TimerTransitionError';
+    this.action = action;
+    this.from = from;
+  }
+}
+
+// Every legal move, keyed by the state it starts from. Anything missing here
+// is rejected, which keeps e.g. a second start() from stacking intervals.
+const TRANSITIONS: Record<TimerState, Partial<Record<TimerAction, TimerState>>> = {
+  [TIMER_STATES.IDLE]: {
+    [TIMER_ACTIONS.START]: TIMER_STATES.RUNNING,
+    [TIMER_ACTIONS.RESET]: TIMER_STATES.IDLE,
+    [TIMER_ACTIONS.SKIP]: TIMER_STATES.IDLE,
+    [TIMER_ACTIONS.SNOOZE]: TIMER_STATES.IDLE,
+    [TIMER_ACTIONS.POSTPONE]: TIMER_STATES.IDLE
+  },
+  [TIMER_STATES.RUNNING]: {
+    [TIMER_ACTIONS.PAUSE]: TIMER_STATES.PAUSED,
+    [TIMER_ACTIONS.RESET]: TIMER_STATES.IDLE,
+    [TIMER_ACTIONS.SKIP]: TIMER_STATES.COMPLETED,
+    [TIMER_ACTIONS.COMPLETE]: TIMER_STATES.COMPLETED,
+    [TIMER_ACTIONS.EXTEND]: TIMER_STATES.RUNNING,
+    [TIMER_ACTIONS.SNOOZE]: TIMER_STATES.IDLE
+  },
+  [TIMER_STATES.PAUSED]: {
+    [TIMER_ACTIONS.RESUME]: TIMER_STATES.RUNNING,
+    [TIMER_ACTIONS.RESET]: TIMER_STATES.IDLE,
+    [TIMER_ACTIONS.SKIP]: TIMER_STATES.COMPLETED,
+    [TIMER_ACTIONS.COMPLETE]: TIMER_STATES.COMPLETED,
+    [TIMER_ACTIONS.EXTEND]: TIMER_STATES.PAUSED
+  },
+  [TIMER_STATES.COMPLETED]: {
+    [TIMER_ACTIONS.ADVANCE]: TIMER_STATES.IDLE,
+    [TIMER_ACTIONS.SNOOZE]: TIMER_STATES.IDLE
+  }
+};
+
+// How often the countdown is re-derived from the clock. Shorter than a second
+// so the display flips close to the real second boundary.
+const TICK_INTERVAL_MS = 250;
+
+// Pause between finishing a session and moving on to the next one
+const ADVANCE_DELAY_MS = 1000;
+
+// A countdown with this little left fires 'sessionEnding', in time to extend it
+const ENDING_SOON_SECONDS = 60;
+
 export class PomodoroTimer extends EventTarget {
   private timeRemaining: number = 0;
   private sessionType: SessionType = SESSION_TYPES.WORK;
   private state: TimerState = TIMER_STATES.IDLE;
   private sessionsCompleted: number = 0;
-  private intervalId: number | null = null;
+  private customCycle: CycleTemplate | null = null;
+  private segmentIndex: number = 0;
+  private intervalId: TaskHandle | null = null;
+  private advanceTimeoutId: TaskHandle | null = null;
+  private scheduledStartId: TaskHandle | null = null;
+  private scheduledStartAt: number | null = null;
+  private countdownId: TaskHandle | null = null;
+  private autoStartPending: boolean = false;
+  private unattendedSessions: number = 0; // work sessions completed since the last manual start
+  private lastSessionEndedAt: number | null = null;
+  private focusBlockEndsAt: number | null = null; // sessions chain on their own until then
+  private startedAt: number | null = null;
+  private endsAt: number | null = null;
+  private pausedAt: number | null = null;
+  private pausedMs: number = 0;
+  private pauseCount: number = 0;
+  private interruptions: Interruption[] = [];
+  private extensionCount: number = 0;
+  private extendedSeconds: number = 0;
+  private openEnded: boolean = false;
+  private elapsed: number = 0;
+  private breakOverride: number | null = null; // minutes, set after a flowtime session
   private settings: Settings = { ...DEFAULT_SETTINGS };
+  private clock: Clock;
+  private scheduler: Scheduler;
+  private snapshotStore: TimerSnapshotStore | null;
+  private lastSnapshotKey: string | null = null;
+  private remote: TimerRemote | null;
 
-  constructor(settings?: Partial<Settings>) {
+  constructor(settings?: Partial<Settings>, options: TimerOptions = {}) {
     super();
+    this.clock = options.clock ?? systemClock;
+    this.scheduler = options.scheduler ?? systemClock;
+    this.snapshotStore = options.snapshotStore === undefined
+      ? StorageManager.getInstance()
+      : options.snapshotStore;
+    this.remote = options.remote ?? null;
+
     if (settings) {
       this.updateSettings(settings);
     }
-    this.reset();
+
+    // A follower must not write its blank state over the owner's snapshot
+    if (this.remote) {
+      this.resetTimeRemaining();
+    } else {
+      this.reset();
+    }
   }
 
-  public start(): void {
-    if (this.state === TIMER_STATES.IDLE) {
-      this.timeRemaining = this.getCurrentSessionDuration() * 60;
+  public start(): boolean {
+    if (this.forward('start')) return true;
+    if (!this.canTransition(TIMER_ACTIONS.START)) {
+      this.rejectAction(TIMER_ACTIONS.START);
+      return false;
     }
 
-    this.state = TIMER_STATES.RUNNING;
-    this.intervalId = window.setInterval(() => {
-      this.tick();
-    }, 1000);
+    // Someone is at the keyboard, so the auto-start limit counts from here
+    this.unattendedSessions = 0;
+    return this.beginSession();
+  }
+
+  // Starts the waiting session, whether by hand or when a scheduled start falls due
+  private beginSession(): boolean {
+    if (!this.transition(TIMER_ACTIONS.START)) return false;
+
+    this.clearScheduledStart();
+    this.resetCycleIfStale();
+
+    const now = this.clock.now();
+    this.openEnded = this.isFlowtimeSession();
+    this.timeRemaining = this.openEnded ? 0 : this.getCurrentSessionDuration() * 60;
+    this.elapsed = 0;
+    this.startedAt = now;
+    this.endsAt = this.openEnded ? null : now + this.timeRemaining * 1000;
+    this.pausedAt = null;
+    this.pausedMs = 0;
+    this.pauseCount = 0;
+    this.interruptions = [];
+    this.extensionCount = 0;
+    this.extendedSeconds = 0;
 
+    this.startTicking();
     this.dispatchTimerEvent();
+    this.dispatchSessionEvent('sessionStarted');
+    return true;
   }
 
-  public pause(): void {
-    if (this.state === TIMER_STATES.RUNNING) {
-      this.state = TIMER_STATES.PAUSED;
+  public pause(): boolean {
+    if (this.forward('pause')) return true;
+    if (!this.transition(TIMER_ACTIONS.PAUSE)) return false;
+
+    this.syncFromClock(this.clock.now());
+    this.pausedAt = this.clock.now();
+    this.pauseCount++;
+    this.clearInterval();
+
+    this.dispatchTimerEvent();
+    this.dispatchSessionEvent('sessionPaused');
+    return true;
+  }
+
+  public resume(): boolean {
+    if (this.forward('resume')) return true;
+    if (!this.transition(TIMER_ACTIONS.RESUME)) return false;
+
+    // Push the deadline back by however long we sat paused
+    const now = this.clock.now();
+    if (this.pausedAt !== null) {
+      const pausedFor = now - this.pausedAt;
+      this.pausedMs += pausedFor;
+      this.endsAt = this.endsAt === null ? null : this.endsAt + pausedFor;
+      this.pausedAt = null;
+    }
+
+    this.startTicking();
+    this.dispatchTimerEvent();
+    return true;
+  }
+
+  /**
+   * Back to the start of the current session. A session that was under way
+   * is reported as abandoned first, so it still leaves a trace.
+   */
+  public reset(): boolean {
+    if (this.forward('reset')) return true;
+
+    const from = this.state;
+    if (!this.transition(TIMER_ACTIONS.RESET)) return false;
+
+    if (from === TIMER_STATES.RUNNING || from === TIMER_STATES.PAUSED) {
+      this.finishSession();
+      this.dispatchSessionEvent('sessionAbandoned');
+    }
+
+    this.clearInterval();
+    this.clearScheduledStart();
+    this.clearTimestamps();
+    this.resetTimeRemaining();
+    this.dispatchTimerEvent();
+    return true;
+  }
+
+  /**
+   * Give the session in progress more time, e.g. "one more minute" when a
+   * work session ends mid-thought. Not available to open-ended sessions.
+   */
+  public extend(minutes: number = this.settings.extendMinutes): boolean {
+    if (this.forward('extend', minutes)) return true;
+    if (this.openEnded || minutes <= 0) {
+      this.rejectAction(TIMER_ACTIONS.EXTEND);
+      return false;
+    }
+    if (!this.transition(TIMER_ACTIONS.EXTEND)) return false;
+
+    const seconds = Math.round(minutes * 60);
+    this.endsAt = (this.endsAt ?? this.clock.now()) + seconds * 1000;
+    this.timeRemaining += seconds;
+    this.extensionCount++;
+    this.extendedSeconds += seconds;
+
+    this.dispatchTimerEvent();
+    return true;
+  }
+
+  /**
+   * Put a break off for a few minutes. Works on a break that is waiting,
+   * already running, or about to follow the session that just finished; the
+   * break then starts by itself once the snooze runs out.
+   */
+  public snooze(minutes: number = this.settings.snoozeMinutes): boolean {
+    if (this.forward('snooze', minutes)) return true;
+
+    const upcomingType = this.state === TIMER_STATES.COMPLETED
+      ? this.getNextSegment().type
+      : this.sessionType;
+
+    if (upcomingType === SESSION_TYPES.WORK || minutes <= 0) {
+      this.rejectAction(TIMER_ACTIONS.SNOOZE);
+      return false;
+    }
+
+    const from = this.state;
+    if (!this.transition(TIMER_ACTIONS.SNOOZE)) return false;
+
+    if (from === TIMER_STATES.COMPLETED) {
+      this.clearAdvanceTimeout();
+      this.moveToNextSession();
+    } else if (from === TIMER_STATES.RUNNING) {
+      // The break barely began; put it back untouched rather than abandon it
       this.clearInterval();
-      this.dispatchTimerEvent();
+      this.clearTimestamps();
+      this.resetTimeRemaining();
     }
+
+    this.scheduleStart(minutes);
+    this.dispatchTimerEvent();
+    return true;
   }
 
-  public resume(): void {
-    if (this.state === TIMER_STATES.PAUSED) {
-      this.start();
+  /**
+   * Start the waiting session automatically in a few minutes instead of now.
+   * Postponing again moves the start further out.
+   */
+  public postpone(minutes: number = this.settings.snoozeMinutes): boolean {
+    if (this.forward('postpone', minutes)) return true;
+    if (minutes <= 0) {
+      this.rejectAction(TIMER_ACTIONS.POSTPONE);
+      return false;
     }
+    if (!this.transition(TIMER_ACTIONS.POSTPONE)) return false;
+
+    this.scheduleStart(minutes);
+    this.dispatchTimerEvent();
+    return true;
   }
 
-  public reset(): void {
-    this.state = TIMER_STATES.IDLE;
-    this.clearInterval();
-    this.timeRemaining = this.getCurrentSessionDuration() * 60;
+  public cancelScheduledStart(): void {
+    if (this.forward('cancelScheduledStart')) return;
+    if (this.scheduledStartAt === null) return;
+
+    this.clearScheduledStart();
+    this.dispatchTimerEvent();
+  }
+
+  /**
+   * Stop an open-ended flowtime session. It counts as completed, and the
+   * break that follows is sized from the time actually focused.
+   */
+  public finish(): boolean {
+    if (this.forward('finish')) return true;
+    if (!this.openEnded) {
+      this.rejectAction(TIMER_ACTIONS.COMPLETE);
+      return false;
+    }
+
+    return this.completeSession();
+  }
+
+  /**
+   * Move past the current session without it counting as completed. An idle
+   * session that was never started just hands over to the next one.
+   */
+  public skip(): boolean {
+    if (this.forward('skip')) return true;
+    const from = this.state;
+    if (!this.transition(TIMER_ACTIONS.SKIP)) return false;
+
+    if (from === TIMER_STATES.IDLE) {
+      this.dispatchSessionEvent('sessionSkipped');
+      this.moveToNextSession();
+      this.dispatchTimerEvent();
+      return true;
+    }
+
+    this.finishSession();
     this.dispatchTimerEvent();
+    this.dispatchSessionEvent('sessionSkipped');
+    this.scheduleAdvance();
+    return true;
   }
 
-  public skip(): void {
-    this.completeSession();
+  /**
+   * Note an interruption against the session in progress. With
+   * `interruptionVoidsPomodoro` on, the session is abandoned straight after.
+   */
+  public logInterruption(type: InterruptionType, note?: string): Interruption | null {
+    if (this.state !== TIMER_STATES.RUNNING && this.state !== TIMER_STATES.PAUSED) {
+      return null;
+    }
+
+    const interruption: Interruption = {
+      type,
+      timestamp: new Date(this.clock.now()).toISOString(),
+      ...(note?.trim() ? { note: note.trim() } : {})
+    };
+    if (this.forward('logInterruption', type, note)) return interruption;
+
+    this.interruptions.push(interruption);
+
+    this.dispatchEvent(new CustomEvent('interruptionLogged', { detail: interruption }));
+
+    if (this.settings.interruptionVoidsPomodoro && this.sessionType === SESSION_TYPES.WORK) {
+      this.reset();
+    } else {
+      this.dispatchTimerEvent();
+    }
+
+    return interruption;
   }
 
   public updateSettings(newSettings: Partial<Settings>): void {
     this.settings = { ...this.settings, ...newSettings };
+    // The owning tab picks the same settings up from storage
+    if (this.remote) return;
+
+    this.clampSegmentIndex();
     if (this.state === TIMER_STATES.IDLE) {
-      this.timeRemaining = this.getCurrentSessionDuration() * 60;
+      this.resetTimeRemaining();
       this.dispatchTimerEvent();
     }
   }
 
-  private tick(): void {
-    this.timeRemaining--;
+  /**
+   * Step through a custom template instead of the classic rotation; null goes
+   * back to classic. Switching while idle starts again at the first segment,
+   * otherwise the session in progress carries on.
+   */
+  public setCycle(template: CycleTemplate | null): void {
+    const changed = this.getCycle().id !== (template?.id ?? CLASSIC_CYCLE_ID);
+    this.customCycle = template;
+    if (this.remote) return;
 
-    if (this.timeRemaining <= 0) {
-      this.completeSession();
+    if (changed && this.state === TIMER_STATES.IDLE) {
+      this.segmentIndex = 0;
+      this.sessionType = this.getCurrentSegment().type;
+      this.resetTimeRemaining();
     } else {
+      this.clampSegmentIndex();
+    }
+
+    this.dispatchTimerEvent();
+  }
+
+  /**
+   * Begin a scheduled focus block ending at `endsAt`. Waiting on a break, the
+   * timer moves on to the next work session and starts it; a session already
+   * under way carries on. Either way, sessions then chain by themselves until
+   * the block is over.
+   */
+  public startFocusBlock(endsAt: number): boolean {
+    if (this.forward('startFocusBlock', endsAt)) return true;
+    if (endsAt <= this.clock.now()) return false;
+
+    this.focusBlockEndsAt = endsAt;
+
+    if (this.state !== TIMER_STATES.IDLE) {
       this.dispatchTimerEvent();
+      return true;
+    }
+
+    this.clearScheduledStart();
+    const segments = this.getCycle().segments.length;
+    for (let i = 0; i < segments && this.sessionType !== SESSION_TYPES.WORK; i++) {
+      this.moveToNextSession();
     }
+
+    this.unattendedSessions = 0;
+    return this.beginSession();
+  }
+
+  public getFocusBlockEndsAt(): number | null {
+    return this.focusBlockEndsAt;
+  }
+
+  /**
+   * Seconds until the session after the one that just completed starts by
+   * itself, or null if it will wait for the user. Lets the completion
+   * notification announce the countdown before it begins.
+   */
+  public getUpcomingAutoStart(): number | null {
+    if (this.state !== TIMER_STATES.COMPLETED) return null;
+
+    const delay = this.getAutoStartDelay(this.getNextSegment().type);
+    return delay === null ? null : delay + ADVANCE_DELAY_MS / 1000;
+  }
+
+  public getCycle(): CycleTemplate {
+    return this.customCycle ?? buildClassicCycle(this.settings);
   }
 
-  private completeSession(): void {
-    this.state = TIMER_STATES.COMPLETED;
+  /**
+   * Re-derive the countdown from the wall clock straight away instead of
+   * waiting for the next tick, e.g. when a throttled tab becomes visible
+   * again or the machine wakes from sleep.
+   */
+  public sync(): void {
+    if (this.remote) return;
+
+    if (this.state === TIMER_STATES.RUNNING) {
+      this.tick();
+    } else if (this.state === TIMER_STATES.IDLE && this.resetCycleIfStale()) {
+      this.dispatchTimerEvent();
+    }
+  }
+
+  /**
+   * Bring back a session saved by a previous page load. A running session
+   * picks up where it should be by now, one whose deadline passed while the
+   * page was closed completes at that deadline, and a paused one stays paused.
+   */
+  public restore(snapshot: TimerSnapshot): void {
+    if (!this.isValidSnapshot(snapshot)) {
+      this.snapshotStore?.clearTimerSnapshot();
+      return;
+    }
+
+    // Rehydration sets the state directly; the snapshot was produced by
+    // legal transitions in the first place
     this.clearInterval();
+    this.clearAdvanceTimeout();
+    this.clearScheduledStart();
+    this.applySnapshot(snapshot);
+
+    switch (snapshot.state) {
+      case TIMER_STATES.RUNNING:
+        this.syncFromClock(this.clock.now());
+        if (!this.openEnded && this.timeRemaining <= 0) {
+          this.completeSession();
+        } else {
+          this.startTicking();
+          this.dispatchTimerEvent();
+        }
+        break;
+      case TIMER_STATES.PAUSED:
+        this.timeRemaining = snapshot.timeRemaining;
+        if (this.openEnded && this.startedAt !== null && this.pausedAt !== null) {
+          this.elapsed = Math.floor((this.pausedAt - this.startedAt - this.pausedMs) / 1000);
+        }
+        this.dispatchTimerEvent();
+        break;
+      case TIMER_STATES.COMPLETED:
+        // The page went away during the short pause before advancing
+        this.advanceToNextSession();
+        break;
+      default:
+        this.clearTimestamps();
+        this.resetTimeRemaining();
+        // A snoozed, postponed or auto start that fell due while closed runs now
+        if (typeof snapshot.scheduledStartAt === 'number') {
+          this.scheduleStartAt(snapshot.scheduledStartAt, snapshot.autoStartPending === true);
+        } else {
+          this.resetCycleIfStale();
+        }
+        this.dispatchTimerEvent();
+    }
+  }
+
+  /**
+   * Stop driving the timer locally and hand control actions to `remote`,
+   * e.g. while another tab owns the session. The timer then only shows what
+   * mirror() is given.
+   */
+  public follow(remote: TimerRemote): void {
+    this.clearInterval();
+    this.clearAdvanceTimeout();
+    this.clearScheduledStart();
+    this.remote = remote;
+  }
+
+  /**
+   * Take ownership of the timer, carrying on from the saved snapshot if
+   * there is one, otherwise from whatever was last mirrored.
+   */
+  public lead(snapshot: TimerSnapshot | null): void {
+    this.remote = null;
+    this.lastSnapshotKey = null;
+    this.restore(snapshot ?? this.getSnapshot());
+  }
+
+  public isFollowing(): boolean {
+    return this.remote !== null;
+  }
+
+  // Show the owning timer's state as is; nothing is scheduled or persisted here
+  public mirror(snapshot: TimerSnapshot, data: TimerEventData): void {
+    if (!this.remote || !this.isValidSnapshot(snapshot)) return;
+
+    this.applySnapshot(snapshot);
+    this.timeRemaining = data.timeRemaining;
+    this.elapsed = data.countUp ? data.elapsed : 0;
+    this.scheduledStartAt = data.scheduledStartAt;
+    this.autoStartPending = data.autoStartIn !== null;
+
+    this.dispatchEvent(new CustomEvent('timerUpdate', { detail: data }));
+  }
+
+  // Run a control action sent from a following tab
+  public handleCommand({ method, args }: TimerCommand): void {
+    const minutes = typeof args[0] === 'number' ? args[0] : undefined;
+
+    switch (method) {
+      case 'start':
+        this.start();
+        break;
+      case 'pause':
+        this.pause();
+        break;
+      case 'resume':
+        this.resume();
+        break;
+      case 'reset':
+        this.reset();
+        break;
+      case 'skip':
+        this.skip();
+        break;
+      case 'finish':
+        this.finish();
+        break;
+      case 'extend':
+        this.extend(minutes);
+        break;
+      case 'snooze':
+        this.snooze(minutes);
+        break;
+      case 'postpone':
+        this.postpone(minutes);
+        break;
+      case 'cancelScheduledStart':
+        this.cancelScheduledStart();
+        break;
+      case 'logInterruption':
+        this.logInterruption(args[0] as InterruptionType, typeof args[1] === 'string' ? args[1] : undefined);
+        break;
+      case 'startFocusBlock':
+        if (typeof args[0] === 'number') {
+          this.startFocusBlock(args[0]);
+        }
+        break;
+    }
+  }
+
+  public getSnapshot(): TimerSnapshot {
+    return {
+      sessionType: this.sessionType,
+      state: this.state,
+      sessionsCompleted: this.sessionsCompleted,
+      cycleId: this.getCycle().id,
+      segmentIndex: this.segmentIndex,
+      timeRemaining: this.timeRemaining,
+      startedAt: this.startedAt,
+      endsAt: this.endsAt,
+      pausedAt: this.pausedAt,
+      pausedMs: this.pausedMs,
+      pauseCount: this.pauseCount,
+      interruptions: [...this.interruptions],
+      extensionCount: this.extensionCount,
+      extendedSeconds: this.extendedSeconds,
+      scheduledStartAt: this.scheduledStartAt,
+      autoStartPending: this.autoStartPending,
+      unattendedSessions: this.unattendedSessions,
+      lastSessionEndedAt: this.lastSessionEndedAt,
+      focusBlockEndsAt: this.focusBlockEndsAt,
+      openEnded: this.openEnded,
+      breakOverride: this.breakOverride,
+      savedAt: this.clock.now()
+    };
+  }
+
+  public canTransition(action: TimerAction): boolean {
+    return TRANSITIONS[this.state][action] !== undefined;
+  }
+
+  // Returns true when the action was sent to the owning timer instead
+  private forward(method: TimerCommandMethod, ...args: unknown[]): boolean {
+    if (!this.remote) return false;
+
+    this.remote.send({ method, args });
+    return true;
+  }
+
+  private applySnapshot(snapshot: TimerSnapshot): void {
+    this.sessionType = snapshot.sessionType;
+    this.sessionsCompleted = snapshot.sessionsCompleted;
+    this.segmentIndex = snapshot.cycleId === this.getCycle().id && Number.isInteger(snapshot.segmentIndex)
+      ? Math.max(0, snapshot.segmentIndex)
+      : 0;
+    this.clampSegmentIndex();
+    this.startedAt = snapshot.startedAt;
+    this.endsAt = snapshot.endsAt;
+    this.pausedAt = snapshot.pausedAt;
+    this.pausedMs = snapshot.pausedMs;
+    this.pauseCount = typeof snapshot.pauseCount === 'number' ? snapshot.pauseCount : 0;
+    this.interruptions = Array.isArray(snapshot.interruptions) ? snapshot.interruptions : [];
+    this.extensionCount = typeof snapshot.extensionCount === 'number' ? snapshot.extensionCount : 0;
+    this.extendedSeconds = typeof snapshot.extendedSeconds === 'number' ? snapshot.extendedSeconds : 0;
+    this.openEnded = snapshot.openEnded === true;
+    this.breakOverride = typeof snapshot.breakOverride === 'number' ? snapshot.breakOverride : null;
+    this.unattendedSessions = typeof snapshot.unattendedSessions === 'number' ? snapshot.unattendedSessions : 0;
+    this.lastSessionEndedAt = typeof snapshot.lastSessionEndedAt === 'number' ? snapshot.lastSessionEndedAt : null;
+    this.focusBlockEndsAt = typeof snapshot.focusBlockEndsAt === 'number' ? snapshot.focusBlockEndsAt : null;
+    this.state = snapshot.state;
+  }
+
+  private transition(action: TimerAction): boolean {
+    const next = TRANSITIONS[this.state][action];
+
+    if (next === undefined) {
+      this.rejectAction(action);
+      return false;
+    }
+
+    this.state = next;
+    return true;
+  }
+
+  private rejectAction(action: TimerAction): void {
+    const error = new TimerTransitionError(action, this.state);
+    this.dispatchEvent(new CustomEvent('transitionRejected', { detail: error }));
+  }
+
+  private scheduleStart(minutes: number): void {
+    this.clearScheduledStart();
+    this.scheduleStartAt(this.clock.now() + Math.round(minutes * 60) * 1000);
+  }
+
+  private scheduleStartAt(startAt: number, autoStart: boolean = false): void {
+    this.scheduledStartAt = startAt;
+    this.autoStartPending = autoStart;
+    this.scheduledStartId = this.scheduler.setTimeout(() => {
+      this.scheduledStartId = null;
+      this.clearScheduledStart();
+      if (this.state === TIMER_STATES.IDLE) {
+        this.beginSession();
+      }
+    }, Math.max(0, startAt - this.clock.now()));
+
+    // Auto-starts count down out loud, so keep the display moving
+    if (autoStart) {
+      this.countdownId = this.scheduler.setInterval(() => {
+        this.dispatchTimerEvent();
+      }, 1000);
+    }
+  }
+
+  private clearScheduledStart(): void {
+    if (this.scheduledStartId !== null) {
+      this.scheduler.clearTimeout(this.scheduledStartId);
+      this.scheduledStartId = null;
+    }
+    if (this.countdownId !== null) {
+      this.scheduler.clearInterval(this.countdownId);
+      this.countdownId = null;
+    }
+    this.scheduledStartAt = null;
+    this.autoStartPending = false;
+  }
+
+  private isValidSnapshot(snapshot: TimerSnapshot): boolean {
+    const sessionTypes: string[] = Object.values(SESSION_TYPES);
+    const states: string[] = Object.values(TIMER_STATES);
+    const isTimestamp = (value: unknown) => value === null || typeof value === 'number';
+
+    return sessionTypes.includes(snapshot.sessionType) &&
+      states.includes(snapshot.state) &&
+      typeof snapshot.sessionsCompleted === 'number' &&
+      typeof snapshot.timeRemaining === 'number' &&
+      typeof snapshot.pausedMs === 'number' &&
+      isTimestamp(snapshot.startedAt) &&
+      isTimestamp(snapshot.endsAt) &&
+      isTimestamp(snapshot.pausedAt);
+  }
+
+  private tick(): void {
+    const previous = this.openEnded ? this.elapsed : this.timeRemaining;
+    this.syncFromClock(this.clock.now());
+
+    if (this.openEnded) {
+      if (this.elapsed !== previous) {
+        this.dispatchTimerEvent();
+      }
+    } else if (this.timeRemaining <= 0) {
+      this.completeSession();
+    } else if (this.timeRemaining !== previous) {
+      this.dispatchTimerEvent();
+      if (previous > ENDING_SOON_SECONDS && this.timeRemaining <= ENDING_SOON_SECONDS) {
+        this.dispatchSessionEvent('sessionEnding');
+      }
+    }
+  }
+
+  private syncFromClock(now: number): void {
+    if (this.openEnded && this.startedAt !== null) {
+      this.elapsed = Math.max(0, Math.floor((now - this.startedAt - this.pausedMs) / 1000));
+      return;
+    }
+    if (this.endsAt === null) return;
+    this.timeRemaining = Math.max(0, Math.ceil((this.endsAt - now) / 1000));
+  }
+
+  private completeSession(): boolean {
+    if (!this.transition(TIMER_ACTIONS.COMPLETE)) return false;
+
+    this.finishSession();
 
     if (this.sessionType === SESSION_TYPES.WORK) {
       this.sessionsCompleted++;
+      this.unattendedSessions++;
+    }
+    if (this.openEnded) {
+      this.breakOverride = this.suggestBreakMinutes(this.elapsed);
     }
 
     this.dispatchTimerEvent();
+    this.dispatchSessionEvent('sessionCompleted');
+    this.scheduleAdvance();
+    return true;
+  }
+
+  private isFlowtimeSession(): boolean {
+    return this.settings.flowtimeEnabled && this.sessionType === SESSION_TYPES.WORK;
+  }
+
+  private suggestBreakMinutes(focusSeconds: number): number {
+    return Math.max(1, Math.round((focusSeconds / 60) * this.settings.flowtimeBreakRatio));
+  }
+
+  // Settle the timestamps of a session that is ending now (or ended earlier)
+  private finishSession(): void {
+    const now = this.clock.now();
+
+    // A skipped session ends now; a session that ran out while the tab was
+    // throttled or asleep ended at its deadline, not when we noticed.
+    if (this.endsAt === null || this.endsAt > now) {
+      this.endsAt = now;
+    }
+    if (this.pausedAt !== null) {
+      this.pausedMs += this.endsAt - this.pausedAt;
+      this.pausedAt = null;
+    }
+    this.startedAt = this.startedAt ?? this.endsAt;
+    this.lastSessionEndedAt = this.endsAt;
+    this.elapsed = Math.max(0, Math.floor((this.endsAt - this.startedAt - this.pausedMs) / 1000));
+    this.timeRemaining = 0;
+    this.clearInterval();
+  }
 
-    // Auto-advance to next session
-    setTimeout(() => {
+  private scheduleAdvance(): void {
+    this.clearAdvanceTimeout();
+    this.advanceTimeoutId = this.scheduler.setTimeout(() => {
+      this.advanceTimeoutId = null;
       this.advanceToNextSession();
-    }, 1000);
+    }, ADVANCE_DELAY_MS);
   }
 
   private advanceToNextSession(): void {
-    this.sessionType = this.getNextSessionType();
-    this.timeRemaining = this.getCurrentSessionDuration() * 60;
-    this.state = TIMER_STATES.IDLE;
+    if (!this.transition(TIMER_ACTIONS.ADVANCE)) return;
 
-    if (this.settings.autoStartBreaks && this.sessionType !== SESSION_TYPES.WORK) {
-      this.start();
-    } else {
+    this.moveToNextSession();
+
+    // The session may have ended long ago, e.g. while the laptop slept
+    if (this.resetCycleIfStale()) {
       this.dispatchTimerEvent();
+      return;
+    }
+
+    const delay = this.getAutoStartDelay(this.sessionType);
+    if (delay === 0) {
+      this.beginSession();
+      return;
+    }
+    if (delay !== null) {
+      this.scheduleStartAt(this.clock.now() + delay * 1000, true);
+    }
+    this.dispatchTimerEvent();
+  }
+
+  /**
+   * The countdown in seconds before a session of this type starts by itself,
+   * or null when it should wait. Work stops auto-starting once the limit of
+   * pomodoros since someone last pressed start is reached. Inside a focus
+   * block everything chains; once the block is over, work waits.
+   */
+  private getAutoStartDelay(type: SessionType): number | null {
+    const isWork = type === SESSION_TYPES.WORK;
+
+    if (this.focusBlockEndsAt !== null) {
+      if (this.clock.now() < this.focusBlockEndsAt) {
+        return Math.max(0, isWork ? this.settings.autoStartWorkDelay : this.settings.autoStartBreaksDelay);
+      }
+      if (isWork) return null;
+    }
+
+    if (isWork) {
+      const { autoStartWork, autoStartWorkDelay, autoStartLimit } = this.settings;
+      if (!autoStartWork) return null;
+      if (autoStartLimit > 0 && this.unattendedSessions >= autoStartLimit) return null;
+      return Math.max(0, autoStartWorkDelay);
     }
+
+    return this.settings.autoStartBreaks ? Math.max(0, this.settings.autoStartBreaksDelay) : null;
   }
 
-  private getNextSessionType(): SessionType {
+  // Step to the next segment of the cycle, wrapping round at the end
+  private moveToNextSession(): void {
+    this.segmentIndex = (this.segmentIndex + 1) % this.getCycle().segments.length;
+    this.sessionType = this.getCurrentSegment().type;
     if (this.sessionType === SESSION_TYPES.WORK) {
-      // After work, check if it's time for long break
-      return this.sessionsCompleted % this.settings.sessionsUntilLongBreak === 0
-        ? SESSION_TYPES.LONG_BREAK
-        : SESSION_TYPES.SHORT_BREAK;
-    } else {
-      // After any break, return to work
-      return SESSION_TYPES.WORK;
+      this.breakOverride = null;
+    }
+    this.clearTimestamps();
+    this.resetTimeRemaining();
+  }
+
+  /**
+   * Go back to the first segment when the last session ended before an idle
+   * gap of `cycleResetIdleMinutes`, or on an earlier day with
+   * `cycleResetDaily` on. A new day also zeroes the pomodoro count. Returns
+   * true if anything was reset.
+   */
+  private resetCycleIfStale(): boolean {
+    const endedAt = this.lastSessionEndedAt;
+    if (endedAt === null || this.scheduledStartAt !== null) return false;
+
+    const now = this.clock.now();
+    const { cycleResetIdleMinutes, cycleResetDaily, dayStartHour } = this.settings;
+    const newDay = cycleResetDaily && toDateKey(endedAt, dayStartHour) !== toDateKey(now, dayStartHour);
+    const idleTooLong = cycleResetIdleMinutes > 0 && now - endedAt >= cycleResetIdleMinutes * 60000;
+
+    if (!newDay && !idleTooLong) return false;
+    if (this.segmentIndex === 0 && (!newDay || this.sessionsCompleted === 0)) return false;
+
+    this.segmentIndex = 0;
+    this.sessionType = this.getCurrentSegment().type;
+    this.breakOverride = null;
+    if (newDay) {
+      this.sessionsCompleted = 0;
+    }
+    if (this.state === TIMER_STATES.IDLE) {
+      this.resetTimeRemaining();
+    }
+    return true;
+  }
+
+  private getCurrentSegment(): CycleSegment {
+    return this.getCycle().segments[this.segmentIndex];
+  }
+
+  private getNextSegment(): CycleSegment {
+    const segments = this.getCycle().segments;
+    return segments[(this.segmentIndex + 1) % segments.length];
+  }
+
+  private clampSegmentIndex(): void {
+    const count = this.getCycle().segments.length;
+    if (this.segmentIndex >= count) {
+      this.segmentIndex = 0;
+    }
+    if (this.state === TIMER_STATES.IDLE) {
+      this.sessionType = this.getCurrentSegment().type;
     }
   }
 
   private getCurrentSessionDuration(): number {
-    switch (this.sessionType) {
-      case SESSION_TYPES.WORK:
-        return this.settings.workDuration;
-      case SESSION_TYPES.SHORT_BREAK:
-        return this.settings.shortBreak;
-      case SESSION_TYPES.LONG_BREAK:
-        return this.settings.longBreak;
-      default:
-        return this.settings.workDuration;
+    if (this.breakOverride !== null && this.sessionType !== SESSION_TYPES.WORK) {
+      return this.breakOverride;
     }
+    return this.getCurrentSegment().duration;
+  }
+
+  // What an idle timer shows: the full countdown, or zero for a count-up
+  private resetTimeRemaining(): void {
+    this.timeRemaining = this.isFlowtimeSession() ? 0 : this.getCurrentSessionDuration() * 60;
+  }
+
+  private startTicking(): void {
+    this.clearInterval();
+    this.intervalId = this.scheduler.setInterval(() => {
+      this.tick();
+    }, TICK_INTERVAL_MS);
   }
 
   private clearInterval(): void {
     if (this.intervalId !== null) {
-      window.clearInterval(this.intervalId);
+      this.scheduler.clearInterval(this.intervalId);
       this.intervalId = null;
     }
   }
 
-  private dispatchTimerEvent(): void {
-    const totalDuration = this.getCurrentSessionDuration() * 60;
-    const progress = totalDuration > 0 ? ((totalDuration - this.timeRemaining) / totalDuration) * 100 : 0;
+  private clearAdvanceTimeout(): void {
+    if (this.advanceTimeoutId !== null) {
+      this.scheduler.clearTimeout(this.advanceTimeoutId);
+      this.advanceTimeoutId = null;
+    }
+  }
+
+  private clearTimestamps(): void {
+    this.startedAt = null;
+    this.endsAt = null;
+    this.pausedAt = null;
+    this.pausedMs = 0;
+    this.pauseCount = 0;
+    this.interruptions = [];
+    this.extensionCount = 0;
+    this.extendedSeconds = 0;
+    this.openEnded = false;
+    this.elapsed = 0;
+  }
+
+  // Only touch storage when something other than the countdown changed
+  private persistSnapshot(): void {
+    const key = [
+      this.state, this.segmentIndex, this.sessionsCompleted, this.endsAt, this.pausedAt, this.openEnded, this.breakOverride,
+      this.interruptions.length, this.extendedSeconds, this.scheduledStartAt, this.unattendedSessions,
+      this.lastSessionEndedAt, this.focusBlockEndsAt
+    ].join('|');
+    if (key === this.lastSnapshotKey) return;
 
-    const eventData: TimerEventData = {
+    this.lastSnapshotKey = key;
+    this.snapshotStore?.saveTimerSnapshot(this.getSnapshot());
+  }
+
+  public getEventData(): TimerEventData {
+    // Measure against the session as it was started, not today's settings
+    const totalDuration = this.startedAt !== null && this.endsAt !== null
+      ? Math.round((this.endsAt - this.startedAt - this.pausedMs) / 1000)
+      : this.getCurrentSessionDuration() * 60;
+    const countUp = this.openEnded || (this.state === TIMER_STATES.IDLE && this.isFlowtimeSession());
+    const progress = countUp
+      ? null
+      : totalDuration > 0 ? ((totalDuration - this.timeRemaining) / totalDuration) * 100 : 0;
+    const cycle = this.getCycle();
+
+    return {
       timeRemaining: this.timeRemaining,
+      elapsed: countUp ? this.elapsed : Math.max(0, totalDuration - this.timeRemaining),
+      countUp,
       sessionType: this.sessionType,
       state: this.state,
       sessionsCompleted: this.sessionsCompleted,
-      progress
+      progress,
+      startedAt: this.startedAt,
+      endsAt: this.endsAt,
+      pausedMs: this.pausedMs,
+      pauseCount: this.pauseCount,
+      interruptions: [...this.interruptions],
+      extensionCount: this.extensionCount,
+      extendedSeconds: this.extendedSeconds,
+      scheduledStartAt: this.scheduledStartAt,
+      autoStartIn: this.autoStartPending && this.scheduledStartAt !== null
+        ? Math.max(0, Math.ceil((this.scheduledStartAt - this.clock.now()) / 1000))
+        : null,
+      focusBlockEndsAt: this.focusBlockEndsAt,
+      cycleName: cycle.name,
+      segmentLabel: this.getCurrentSegment().label,
+      segmentIndex: this.segmentIndex,
+      segmentCount: cycle.segments.length,
+      cyclePosition: getCyclePosition(cycle, this.segmentIndex),
+      suggestedBreakMinutes: this.openEnded ? this.suggestBreakMinutes(this.elapsed) : null
     };
+  }
 
-    this.dispatchEvent(new CustomEvent('timerUpdate', { detail: eventData }));
+  private dispatchTimerEvent(): void {
+    this.persistSnapshot();
+    this.dispatchEvent(new CustomEvent('timerUpdate', { detail: this.getEventData() }));
+  }
+
+  private dispatchSessionEvent(type: SessionEventType): void {
+    this.dispatchEvent(new CustomEvent(type, { detail: this.getEventData() }));
   }
 
   // Getters for current state
@@ -160,6 +1105,22 @@ export class PomodoroTimer extends EventTarget {
     return this.timeRemaining;
   }
 
+  public getEndsAt(): number | null {
+    return this.endsAt;
+  }
+
+  public getElapsed(): number {
+    return this.elapsed;
+  }
+
+  public isCountingUp(): boolean {
+    return this.openEnded;
+  }
+
+  public getScheduledStartAt(): number | null {
+    return this.scheduledStartAt;
+  }
+
   public getSessionType(): SessionType {
     return this.sessionType;
   }
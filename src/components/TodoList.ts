@@ -19,9 +19,6 @@ export class TodoList {
     this.initializeElements();
     this.bindEvents();
     this.render();
-
-    // Clean up expired data on initialization
-    TodoStorage.cleanupExpiredData();
   }
 
   private initializeElements(): void {
@@ -1,31 +1,44 @@
-import { PomodoroTimer } from './components/Timer.js';
+import { PomodoroTimer, type TimerEventData, type TimerTransitionError } from './components/Timer.js';
 import { TimerDisplay } from './components/Display.js';
 import { TimerControls } from './components/Controls.js';
 import { Statistics } from './components/Statistics.js';
 import { SettingsManager } from './components/Settings.js';
 import { TodoList } from './components/TodoList.js';
+import { FocusSchedule } from './components/FocusSchedule.js';
+import { Analytics } from './components/Analytics.js';
+import { Heatmap } from './components/Heatmap.js';
+import { Insights } from './components/Insights.js';
+import { Goals } from './components/Goals.js';
+import { DataPanel } from './components/DataPanel.js';
 import { AudioNotificationManager } from './utils/audio.js';
-import { StorageManager } from './utils/storage.js';
+import { StorageManager, type SessionRecord } from './utils/storage.js';
 import { TodoStorage } from './utils/todoStorage.js';
-import { SESSION_TYPES, TIMER_STATES } from './utils/constants.js';
+import { IndexedDbAdapter } from './utils/indexedDbAdapter.js';
+import { LocalStorageAdapter } from './utils/localStorageAdapter.js';
+import { MemoryStorageAdapter } from './utils/memoryAdapter.js';
+import type { StorageAdapter } from './utils/storageAdapter.js';
+import { TabCoordinator } from './utils/tabSync.js';
+import { SESSION_TYPES, SESSION_OUTCOMES, TIMER_STATES, type SessionOutcome } from './utils/constants.js';
 import './styles/main.css';
 
 // Particle system removed for static design
 
 // Minimal Luxury Theme Manager
 class ThemeManager {
+  private storageManager: StorageManager;
   private isDark: boolean = false;
   private toggleButton: HTMLButtonElement | null = null;
   private themeIcon: HTMLElement | null = null;
 
   constructor() {
+    this.storageManager = StorageManager.getInstance();
     this.initializeTheme();
     this.setupToggleButton();
   }
 
   private initializeTheme(): void {
-    // Check localStorage for saved preference
-    const savedTheme = localStorage.getItem('fokus-theme');
+    // Check for a saved preference
+    const savedTheme = this.storageManager.loadTheme();
     const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
 
     this.isDark = savedTheme ? savedTheme === 'dark' : prefersDark;
@@ -33,7 +46,7 @@ class ThemeManager {
 
     // Listen for system theme changes
     window.matchMedia('(prefers-color-scheme: dark)').addEventListener('change', (e) => {
-      if (!localStorage.getItem('fokus-theme')) {
+      if (!this.storageManager.loadTheme()) {
         this.isDark = e.matches;
         this.applyTheme();
         this.updateToggleIcon();
@@ -76,7 +89,7 @@ class ThemeManager {
     this.updateToggleIcon();
 
     // Save preference
-    localStorage.setItem('fokus-theme', this.isDark ? 'dark' : 'light');
+    this.storageManager.saveTheme(this.isDark ? 'dark' : 'light');
   }
 
   public getCurrentTheme(): string {
@@ -93,20 +106,34 @@ class FokusApp {
   private statistics!: Statistics;
   private settings!: SettingsManager;
   private todoList!: TodoList;
+  private focusSchedule!: FocusSchedule;
+  private analytics!: Analytics;
+  private heatmap!: Heatmap;
+  private insights!: Insights;
+  private goals!: Goals;
+  private dataPanel!: DataPanel;
   private audioManager: AudioNotificationManager;
   private storageManager: StorageManager;
   private todoStorage: TodoStorage;
   private themeManager!: ThemeManager;
+  private tabCoordinator: TabCoordinator;
 
   constructor() {
     this.storageManager = StorageManager.getInstance();
     this.todoStorage = TodoStorage.getInstance();
-    this.timer = new PomodoroTimer();
+
+    // Every tab follows until it wins the election to own the timer, so a
+    // second tab never writes over the first one's session
+    this.tabCoordinator = new TabCoordinator();
+    this.timer = new PomodoroTimer(undefined, {
+      remote: TabCoordinator.isSupported() ? this.tabCoordinator : undefined
+    });
     this.audioManager = new AudioNotificationManager();
 
     this.initializeComponents();
     this.initializeLuxuryEffects();
     this.bindGlobalEvents();
+    this.tabCoordinator.connect(this.timer, () => this.restoreSession());
     this.setupNotifications();
     this.setupPWAFeatures();
     this.handleURLParameters();
@@ -172,6 +199,12 @@ class FokusApp {
     this.statistics = new Statistics(this.timer);
     this.settings = new SettingsManager(this.timer);
     this.todoList = new TodoList();
+    this.focusSchedule = new FocusSchedule(this.timer);
+    this.analytics = new Analytics();
+    this.heatmap = new Heatmap();
+    this.insights = new Insights();
+    this.goals = new Goals(this.audioManager);
+    this.dataPanel = new DataPanel();
 
     // Components work via side effects during instantiation
     void this.display;
@@ -179,15 +212,55 @@ class FokusApp {
     void this.statistics;
     void this.settings;
     void this.todoList;
+    void this.focusSchedule;
+    void this.analytics;
+    void this.heatmap;
+    void this.insights;
+    void this.goals;
+    void this.dataPanel;
   }
 
   private bindGlobalEvents(): void {
     // Handle timer completion events
-    this.timer.addEventListener('timerUpdate', (event: Event) => {
-      const eventData = (event as CustomEvent).detail;
+    this.timer.addEventListener('sessionCompleted', (event: Event) => {
+      this.handleSessionCompletion((event as CustomEvent<TimerEventData>).detail);
+    });
+
+    // A minute's warning, with a button to extend the session
+    this.timer.addEventListener('sessionEnding', (event: Event) => {
+      const { sessionType, timeRemaining } = (event as CustomEvent<TimerEventData>).detail;
+      if (sessionType === SESSION_TYPES.WORK) {
+        void this.audioManager.showEndingNotification(timeRemaining);
+      }
+    });
 
-      if (eventData.state === TIMER_STATES.COMPLETED) {
-        this.handleSessionCompletion(eventData);
+    // Sessions cut short are recorded too, with what was actually done
+    this.timer.addEventListener('sessionSkipped', (event: Event) => {
+      void this.recordSession((event as CustomEvent<TimerEventData>).detail, SESSION_OUTCOMES.SKIPPED);
+    });
+
+    this.timer.addEventListener('sessionAbandoned', (event: Event) => {
+      void this.recordSession((event as CustomEvent<TimerEventData>).detail, SESSION_OUTCOMES.ABANDONED);
+    });
+
+    // Illegal transitions (e.g. a second start) are dropped, not fatal
+    this.timer.addEventListener('transitionRejected', (event: Event) => {
+      const error = (event as CustomEvent<TimerTransitionError>).detail;
+      console.debug(error.message);
+    });
+
+    // Snooze/postpone/extend buttons on notifications arrive via the service worker
+    navigator.serviceWorker?.addEventListener('message', (event: MessageEvent) => {
+      if (event.data?.type !== 'timer-action') return;
+
+      if (event.data.action === 'snooze') {
+        this.timer.snooze();
+      } else if (event.data.action === 'postpone') {
+        this.timer.postpone();
+      } else if (event.data.action === 'extend') {
+        this.timer.extend();
+      } else if (event.data.action === 'cancel-auto-start') {
+        this.timer.cancelScheduledStart();
       }
     });
 
@@ -197,12 +270,21 @@ class FokusApp {
         // Don't automatically pause - users might want timer to continue
         // Just update the title to show current state
         this.updateTabTitle();
+      } else if (!document.hidden) {
+        // Background tabs are throttled, so catch up with the real clock
+        this.timer.sync();
       }
     });
 
+    // Coming back to a window left open over lunch may restart the cycle
+    window.addEventListener('focus', () => {
+      this.timer.sync();
+    });
+
     // Handle beforeunload to warn about active timer
     window.addEventListener('beforeunload', (event) => {
-      if (this.timer.getState() === TIMER_STATES.RUNNING) {
+      // Closing a following tab leaves the timer running in its owner
+      if (this.tabCoordinator.isLeader() && this.timer.getState() === TIMER_STATES.RUNNING) {
         event.preventDefault();
         event.returnValue = 'You have an active timer running. Are you sure you want to leave?';
         return event.returnValue;
@@ -210,6 +292,12 @@ class FokusApp {
     });
   }
 
+  private restoreSession(): void {
+    // Runs after the completion listeners are bound, so a session that ended
+    // while the page (or the owning tab) was closed still gets recorded
+    this.timer.lead(this.storageManager.loadTimerSnapshot());
+  }
+
   private setupNotifications(): void {
     // Request notification permission on first user interaction
     document.addEventListener('click', () => {
@@ -223,39 +311,49 @@ class FokusApp {
     }, { once: true });
   }
 
-  private async handleSessionCompletion(eventData: any): Promise<void> {
+  private handleSessionCompletion(eventData: TimerEventData): void {
     const { sessionType } = eventData;
+    const autoStartIn = this.timer.getUpcomingAutoStart();
 
-    // Play appropriate notification
-    if (sessionType === SESSION_TYPES.WORK) {
-      await this.audioManager.playNotification('workComplete');
-    } else {
-      await this.audioManager.playNotification('breakComplete');
-    }
+    // Record first: a session restored on load completes before any user
+    // gesture, and audio can't resume until there is one
+    void this.recordSession(eventData, SESSION_OUTCOMES.COMPLETED);
 
-    // Record session in storage
-    this.recordSession(sessionType);
+    // Play appropriate notification
+    void this.audioManager.playNotification(sessionType === SESSION_TYPES.WORK ? 'workComplete' : 'breakComplete', autoStartIn);
   }
 
-  private recordSession(sessionType: string): void {
-    const settings = this.timer.getSettings();
-    const duration = sessionType === SESSION_TYPES.WORK
-      ? settings.workDuration
-      : sessionType === SESSION_TYPES.SHORT_BREAK
-        ? settings.shortBreak
-        : settings.longBreak;
+  private async recordSession(eventData: TimerEventData, outcome: SessionOutcome): Promise<void> {
+    const { sessionType, startedAt, endsAt, pausedMs, elapsed, pauseCount } = eventData;
+
+    // Skipping a session that never started leaves nothing to record
+    if (startedAt === null) return;
+
+    const endTime = endsAt ?? Date.now();
+    const todo = sessionType === SESSION_TYPES.WORK ? this.todoStorage.getCurrentTodo() : null;
 
-    const sessionRecord = {
+    const sessionRecord: SessionRecord = {
       id: this.generateSessionId(),
-      date: new Date().toISOString().split('T')[0],
+      date: this.storageManager.dateOf(endTime),
       sessionType,
-      duration,
-      completed: true,
-      startTime: new Date(Date.now() - duration * 60 * 1000).toISOString(),
-      endTime: new Date().toISOString()
+      duration: Math.round(elapsed / 60),
+      completed: outcome === SESSION_OUTCOMES.COMPLETED,
+      startTime: new Date(startedAt).toISOString(),
+      endTime: new Date(endTime).toISOString(),
+      flowtime: eventData.countUp,
+      outcome,
+      focusedSeconds: elapsed,
+      pausedSeconds: Math.round(pausedMs / 1000),
+      pauseCount,
+      interruptions: eventData.interruptions,
+      extensionCount: eventData.extensionCount,
+      extendedSeconds: eventData.extendedSeconds,
+      profileId: this.timer.getSettings().profileId,
+      ...(todo ? { todoId: todo.id, task: todo.text, tags: todo.tags ?? [] } : {})
     };
 
-    this.storageManager.saveSessionRecord(sessionRecord);
+    await this.storageManager.appendSessionRecord(sessionRecord);
+    document.dispatchEvent(new CustomEvent('sessionRecorded', { detail: sessionRecord }));
   }
 
   private generateSessionId(): string {
@@ -265,7 +363,7 @@ class FokusApp {
   private setupPWAFeatures(): void {
     // Register service worker for offline functionality
     if ('serviceWorker' in navigator) {
-      window.addEventListener('load', () => {
+      const register = () => {
         navigator.serviceWorker.register('/sw.js')
           .then(registration => {
             console.log('SW registered: ', registration);
@@ -273,7 +371,14 @@ class FokusApp {
           .catch(registrationError => {
             console.log('SW registration failed: ', registrationError);
           });
-      });
+      };
+
+      // Storage is set up first, so the page may well have loaded by now
+      if (document.readyState === 'complete') {
+        register();
+      } else {
+        window.addEventListener('load', register);
+      }
     }
 
     // Handle PWA installation prompt
@@ -401,13 +506,14 @@ class FokusApp {
 
   private updateTabTitle(): void {
     const state = this.timer.getState();
-    const timeRemaining = this.timer.getTimeRemaining();
+    const countUp = this.timer.isCountingUp();
+    const shownSeconds = countUp ? this.timer.getElapsed() : this.timer.getTimeRemaining();
     const sessionType = this.timer.getSessionType();
 
     if (state === TIMER_STATES.RUNNING) {
-      const minutes = Math.floor(timeRemaining / 60);
-      const seconds = timeRemaining % 60;
-      const timeText = `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+      const minutes = Math.floor(shownSeconds / 60);
+      const seconds = shownSeconds % 60;
+      const timeText = `${countUp ? '+' : ''}${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
       const sessionText = sessionType === SESSION_TYPES.WORK ? 'Work' : 'Break';
       document.title = `${timeText} - ${sessionText} | Fokus`;
     } else {
@@ -437,8 +543,22 @@ class FokusApp {
   }
 }
 
-// Initialize the app when DOM is ready
-document.addEventListener('DOMContentLoaded', () => {
+// IndexedDB where the browser allows it, then localStorage, and failing both
+// storage that only lasts as long as the page
+async function openStorage(): Promise<StorageAdapter> {
+  const database = await IndexedDbAdapter.open();
+  if (database) return database;
+
+  return LocalStorageAdapter.isSupported() ? new LocalStorageAdapter() : new MemoryStorageAdapter();
+}
+
+// Initialize the app when DOM is ready, once stored data has been loaded
+// (and moved into IndexedDB on the first run)
+document.addEventListener('DOMContentLoaded', async () => {
+  const adapter = await openStorage();
+  await StorageManager.getInstance().init(adapter);
+  await TodoStorage.getInstance().init(adapter);
+
   const app = new FokusApp();
 
   // Make app available globally for debugging
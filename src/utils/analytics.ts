@@ -0,0 +1,157 @@
+import { SESSION_OUTCOMES, SESSION_TYPES, type SessionType } from './constants.js';
+import { buildDailyStatistics, sessionMinutes, sessionOutcome } from './sessionLog.js';
+import { addDays } from './dates.js';
+import type { DailyStatistics, SessionRecord } from './storage.js';
+
+export type AnalyticsPeriod = 'week' | 'month';
+
+// The days a week (Monday to Sunday) or calendar month covers
+export interface PeriodRange {
+  period: AnalyticsPeriod;
+  start: string;
+  end: string;
+  dates: string[];
+}
+
+export interface PeriodSummary {
+  range: PeriodRange;
+  focusMinutesByDay: { date: string; minutes: number }[];
+  totalFocusMinutes: number;
+  averageSessionMinutes: number | null;  // null with no completed work sessions
+  completionRate: number | null;         // null with no work sessions attempted
+  minutesByType: Record<SessionType, number>;
+}
+
+export function getPeriodRange(period: AnalyticsPeriod, date: string): PeriodRange {
+  const day = new Date(`${date}T00:00:00Z`);
+
+  if (period === 'week') {
+    // Weeks start on Monday; getUTCDay() counts from Sunday
+    const start = addDays(date, -((day.getUTCDay() + 6) % 7));
+    return rangeFrom(period, start, addDays(start, 6));
+  }
+
+  const start = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0));
+  return rangeFrom(period, toDateString(start), toDateString(end));
+}
+
+// The period `offset` weeks or months before (negative) or after this one
+export function shiftPeriod(range: PeriodRange, offset: number): PeriodRange {
+  if (range.period === 'week') {
+    return getPeriodRange('week', addDays(range.start, offset * 7));
+  }
+
+  const start = new Date(`${range.start}T00:00:00Z`);
+  start.setUTCMonth(start.getUTCMonth() + offset);
+  return getPeriodRange('month', toDateString(start));
+}
+
+/**
+ * Totals for a period from its session records. Focus time counts completed
+ * work, as in the stats strip; the type split counts every completed session.
+ */
+export function summarizePeriod(range: PeriodRange, records: SessionRecord[]): PeriodSummary {
+  const inRange = records.filter(record => record.date >= range.start && record.date <= range.end);
+  const days = buildDailyStatistics(inRange);
+
+  const work = inRange.filter(record => record.sessionType === SESSION_TYPES.WORK);
+  const completedWork = work.filter(record => sessionOutcome(record) === SESSION_OUTCOMES.COMPLETED);
+  const totalFocusMinutes = range.dates.reduce((total, date) => total + (days[date]?.focusTimeMinutes ?? 0), 0);
+
+  const minutesByType: Record<SessionType, number> = {
+    [SESSION_TYPES.WORK]: 0,
+    [SESSION_TYPES.SHORT_BREAK]: 0,
+    [SESSION_TYPES.LONG_BREAK]: 0
+  };
+  inRange.forEach(record => {
+    if (record.completed && record.sessionType in minutesByType) {
+      minutesByType[record.sessionType as SessionType] += sessionMinutes(record);
+    }
+  });
+  (Object.keys(minutesByType) as SessionType[]).forEach(type => {
+    minutesByType[type] = Math.round(minutesByType[type]);
+  });
+
+  return {
+    range,
+    focusMinutesByDay: range.dates.map(date => ({ date, minutes: days[date]?.focusTimeMinutes ?? 0 })),
+    totalFocusMinutes,
+    averageSessionMinutes: completedWork.length > 0
+      ? completedWork.reduce((total, record) => total + sessionMinutes(record), 0) / completedWork.length
+      : null,
+    completionRate: work.length > 0 ? completedWork.length / work.length : null,
+    minutesByType
+  };
+}
+
+// A day in the heatmap; level 0 is no focus, 1-4 rank it among the user's own days
+export interface HeatmapDay {
+  date: string;
+  minutes: number;
+  level: number;
+}
+
+export const HEATMAP_LEVELS = 4;
+
+/**
+ * The year up to `today` as week columns, Monday first, for a contribution
+ * style calendar. Levels come from the quartiles of the days with any focus,
+ * so a light user's good day is as dark as a heavy user's. Days before the
+ * first Monday or after today are null.
+ */
+export function buildHeatmap(today: string, days: Record<string, DailyStatistics>): (HeatmapDay | null)[][] {
+  const start = getPeriodRange('week', addDays(today, -364)).start;
+  const range = rangeFrom('week', start, getPeriodRange('week', today).end);
+  const minutes = (date: string) => date <= today ? days[date]?.focusTimeMinutes ?? 0 : 0;
+  const thresholds = heatmapThresholds(range.dates.map(minutes));
+
+  const weeks: (HeatmapDay | null)[][] = [];
+  range.dates.forEach((date, index) => {
+    if (index % 7 === 0) weeks.push([]);
+    weeks[weeks.length - 1].push(date > today ? null : {
+      date,
+      minutes: minutes(date),
+      level: heatmapLevel(minutes(date), thresholds)
+    });
+  });
+  return weeks;
+}
+
+// Upper bounds of levels 1 to 3, taken from the non-zero values
+export function heatmapThresholds(values: number[]): number[] {
+  const active = values.filter(value => value > 0).sort((a, b) => a - b);
+  if (active.length === 0) return [];
+
+  return [1, 2, 3].map(quartile => active[Math.ceil((quartile / HEATMAP_LEVELS) * active.length) - 1]);
+}
+
+export function heatmapLevel(minutes: number, thresholds: number[]): number {
+  if (minutes <= 0) return 0;
+
+  const level = thresholds.findIndex(threshold => minutes <= threshold);
+  return level === -1 ? HEATMAP_LEVELS : level + 1;
+}
+
+export function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  return hours > 0 ? `${hours}h ${remainingMinutes}m` : `${remainingMinutes}m`;
+}
+
+// Dates are calendar days, so they're shown without shifting them into a timezone
+export function formatDate(date: string, options: Intl.DateTimeFormatOptions): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { ...options, timeZone: 'UTC' });
+}
+
+function rangeFrom(period: AnalyticsPeriod, start: string, end: string): PeriodRange {
+  const dates: string[] = [];
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    dates.push(date);
+  }
+  return { period, start, end, dates };
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
\ No newline at end of file
@@ -1,6 +1,16 @@
+import { DEFAULT_SETTINGS } from './constants.js';
+
+// Buttons on the notification; clicks come back from the service worker
+interface NotificationAction {
+  action: string;
+  title: string;
+}
+
 export class AudioNotificationManager {
   private audioContext: AudioContext | null = null;
   private soundEnabled: boolean = true;
+  private snoozeMinutes: number = DEFAULT_SETTINGS.snoozeMinutes;
+  private extendMinutes: number = DEFAULT_SETTINGS.extendMinutes;
 
   constructor() {
     this.initializeAudioContext();
@@ -18,12 +28,18 @@ export class AudioNotificationManager {
 
   private listenForSettingsChanges(): void {
     document.addEventListener('settingsChanged', (event: Event) => {
-      const { soundEnabled } = (event as CustomEvent).detail;
+      const { soundEnabled, snoozeMinutes, extendMinutes } = (event as CustomEvent).detail;
       this.soundEnabled = soundEnabled;
+      this.snoozeMinutes = snoozeMinutes ?? this.snoozeMinutes;
+      this.extendMinutes = extendMinutes ?? this.extendMinutes;
     });
   }
 
-  public async playNotification(type: 'workComplete' | 'breakComplete'): Promise<void> {
+  /**
+   * `autoStartIn` is the countdown in seconds before the next session starts
+   * by itself, if it will, so the notification can offer to cancel it.
+   */
+  public async playNotification(type: 'workComplete' | 'breakComplete', autoStartIn: number | null = null): Promise<void> {
     if (!this.soundEnabled) return;
 
     try {
@@ -33,7 +49,7 @@ export class AudioNotificationManager {
       }
 
       // Show browser notification
-      this.showBrowserNotification(type);
+      await this.showBrowserNotification(type, autoStartIn);
 
       // Play audio notification
       await this.playAudioNotification(type);
@@ -42,7 +58,53 @@ export class AudioNotificationManager {
     }
   }
 
-  private showBrowserNotification(type: 'workComplete' | 'breakComplete'): void {
+  /**
+   * A goal was met. Usually right as a work session ends, so the fanfare
+   * waits for the session chime to finish.
+   */
+  public async playCelebration(title: string, body: string): Promise<void> {
+    if (!this.soundEnabled) return;
+
+    try {
+      if ('Notification' in window && Notification.permission === 'granted') {
+        new Notification(title, { body, icon: '/vite.svg', badge: '/vite.svg', tag: 'fokus-goal' } as NotificationOptions);
+      }
+
+      await this.resumeAudioContext();
+      this.playFanfare();
+    } catch (error) {
+      console.warn('Failed to play celebration:', error);
+    }
+  }
+
+  /**
+   * A work session is about to end. Offers to extend it, which is only
+   * possible while it is still running; without the service worker there is
+   * no button, so nothing is shown.
+   */
+  public async showEndingNotification(secondsLeft: number): Promise<void> {
+    if (!this.soundEnabled) return;
+    if (!('Notification' in window) || Notification.permission !== 'granted' || !('serviceWorker' in navigator)) return;
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration();
+      if (!registration) return;
+
+      const minutes = Math.max(1, Math.ceil(secondsLeft / 60));
+      const actions: NotificationAction[] = [{ action: 'extend', title: `Extend ${this.extendMinutes} min` }];
+      await registration.showNotification('Almost done ⏳', {
+        body: `${minutes} minute${minutes === 1 ? '' : 's'} left in this work session.`,
+        icon: '/vite.svg',
+        badge: '/vite.svg',
+        tag: 'fokus-timer',
+        actions
+      } as NotificationOptions);
+    } catch (error) {
+      console.warn('Failed to show notification:', error);
+    }
+  }
+
+  private async showBrowserNotification(type: 'workComplete' | 'breakComplete', autoStartIn: number | null): Promise<void> {
     if ('Notification' in window && Notification.permission === 'granted') {
       const options: NotificationOptions = {
         icon: '/vite.svg', // You can replace with a custom icon
@@ -51,28 +113,36 @@ export class AudioNotificationManager {
         tag: 'fokus-timer'
       };
 
-      if (type === 'workComplete') {
-        new Notification('Work Session Complete! 🎉', {
-          body: 'Great work! Time for a well-deserved break.',
-          ...options
-        });
+      const title = type === 'workComplete' ? 'Work Session Complete! 🎉' : 'Break Time Over! 💪';
+      let body = type === 'workComplete'
+        ? 'Great work! Time for a well-deserved break.'
+        : 'Ready to get back to work? Let\'s stay focused!';
+      if (autoStartIn !== null) {
+        body = `${type === 'workComplete' ? 'Break' : 'Work'} starts in ${autoStartIn}s.`;
+      }
+
+      // Action buttons only work on notifications shown by the service worker
+      const registration = 'serviceWorker' in navigator
+        ? await navigator.serviceWorker.getRegistration()
+        : undefined;
+
+      if (registration) {
+        const actions: NotificationAction[] = type === 'workComplete'
+          ? [{ action: 'snooze', title: `Snooze break ${this.snoozeMinutes} min` }]
+          : [{ action: 'postpone', title: `Postpone ${this.snoozeMinutes} min` }];
+        if (autoStartIn !== null) {
+          actions.unshift({ action: 'cancel-auto-start', title: 'Cancel' });
+        }
+
+        await registration.showNotification(title, { body, ...options, actions } as NotificationOptions);
       } else {
-        new Notification('Break Time Over! 💪', {
-          body: 'Ready to get back to work? Let\'s stay focused!',
-          ...options
-        });
+        new Notification(title, { body, ...options });
       }
     }
   }
 
   private async playAudioNotification(type: 'workComplete' | 'breakComplete'): Promise<void> {
-    if (!this.audioContext) {
-      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-    }
-
-    if (this.audioContext.state === 'suspended') {
-      await this.audioContext.resume();
-    }
+    await this.resumeAudioContext();
 
     // Create different tones for different notification types
     if (type === 'workComplete') {
@@ -82,6 +152,16 @@ export class AudioNotificationManager {
     }
   }
 
+  private async resumeAudioContext(): Promise<void> {
+    if (!this.audioContext) {
+      this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+
+    if (this.audioContext.state === 'suspended') {
+      await this.audioContext.resume();
+    }
+  }
+
   private async playChime(): Promise<void> {
     if (!this.audioContext) return;
 
@@ -116,6 +196,23 @@ export class AudioNotificationManager {
     }
   }
 
+  private playFanfare(): void {
+    if (!this.audioContext) return;
+
+    const gainNode = this.audioContext.createGain();
+    gainNode.connect(this.audioContext.destination);
+
+    // A rising C major arpeggio, after the 3-note chime
+    const frequencies = [523.25, 659.25, 783.99, 1046.5]; // C5, E5, G5, C6
+    const delay = 800;
+
+    frequencies.forEach((frequency, i) => {
+      setTimeout(() => {
+        this.playTone(frequency, i === frequencies.length - 1 ? 0.6 : 0.2, gainNode, 0.1);
+      }, delay + i * 150);
+    });
+  }
+
   private playTone(frequency: number, duration: number, gainNode: GainNode, volume: number): void {
     if (!this.audioContext) return;
 
@@ -0,0 +1,79 @@
+import { formatMinutes } from './analytics.js';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Geometry in viewBox units; charts scale to their container's width
+export const CHART_WIDTH = 640;
+const CHART_HEIGHT = 200;
+const AXIS_HEIGHT = 20;
+const BAR_GAP = 0.25;  // share of each slot left empty
+
+export interface ChartBar {
+  label: string;       // under the bar; may be empty to leave a slot unlabelled
+  minutes: number;
+  title: string;       // shown on hover
+  highlight?: boolean;
+}
+
+export function svgElement<K extends keyof SVGElementTagNameMap>(name: K, attributes: Record<string, string | number>): SVGElementTagNameMap[K] {
+  const element = document.createElementNS(SVG_NS, name);
+  Object.entries(attributes).forEach(([attribute, value]) => element.setAttribute(attribute, String(value)));
+  return element;
+}
+
+/**
+ * A bar chart of minutes, scaled to its largest bar. Colours come from the
+ * chart-* classes in the stylesheet, so it follows the theme.
+ */
+export function renderBarChart(bars: ChartBar[], description: string): SVGSVGElement {
+  const max = chartMaximum(Math.max(0, ...bars.map(bar => bar.minutes)));
+  const plotHeight = CHART_HEIGHT - AXIS_HEIGHT;
+  const slot = CHART_WIDTH / bars.length;
+
+  const svg = svgElement('svg', {
+    viewBox: `0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`,
+    role: 'img',
+    'aria-label': description
+  });
+
+  svg.append(svgElement('line', { class: 'chart-gridline', x1: 0, y1: 0.5, x2: CHART_WIDTH, y2: 0.5 }));
+  svg.append(svgElement('line', { class: 'chart-axis', x1: 0, y1: plotHeight, x2: CHART_WIDTH, y2: plotHeight }));
+  const maxLabel = svgElement('text', { class: 'chart-label', x: CHART_WIDTH - 2, y: 12, 'text-anchor': 'end' });
+  maxLabel.textContent = formatMinutes(max);
+  svg.append(maxLabel);
+
+  bars.forEach((bar, index) => {
+    const height = (bar.minutes / max) * plotHeight;
+    const rect = svgElement('rect', {
+      class: bar.highlight ? 'chart-bar today' : 'chart-bar',
+      x: index * slot + (slot * BAR_GAP) / 2,
+      y: plotHeight - height,
+      width: slot * (1 - BAR_GAP),
+      height
+    });
+    const title = svgElement('title', {});
+    title.textContent = bar.title;
+    rect.append(title);
+    svg.append(rect);
+
+    if (bar.label) {
+      const label = svgElement('text', {
+        class: 'chart-label',
+        x: index * slot + slot / 2,
+        y: CHART_HEIGHT - 5,
+        'text-anchor': 'middle'
+      });
+      label.textContent = bar.label;
+      svg.append(label);
+    }
+  });
+
+  return svg;
+}
+
+// Round the top of the scale up to a whole quarter or hour so the label reads cleanly
+function chartMaximum(minutes: number): number {
+  if (minutes <= 0) return 60;
+  const step = minutes > 120 ? 60 : 15;
+  return Math.ceil(minutes / step) * step;
+}
\ No newline at end of file
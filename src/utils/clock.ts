@@ -0,0 +1,116 @@
+export type TaskHandle = ReturnType<typeof setTimeout>;
+
+export interface Clock {
+  now(): number;
+}
+
+export interface Scheduler {
+  setInterval(callback: () => void, ms: number): TaskHandle;
+  clearInterval(handle: TaskHandle): void;
+  setTimeout(callback: () => void, ms: number): TaskHandle;
+  clearTimeout(handle: TaskHandle): void;
+}
+
+// Real time, via whatever global timers the host provides (window, worker or Node)
+export const systemClock: Clock & Scheduler = {
+  now: () => Date.now(),
+  setInterval: (callback, ms) => globalThis.setInterval(callback, ms),
+  clearInterval: (handle) => globalThis.clearInterval(handle),
+  setTimeout: (callback, ms) => globalThis.setTimeout(callback, ms),
+  clearTimeout: (handle) => globalThis.clearTimeout(handle)
+};
+
+interface ScheduledTask {
+  id: number;
+  runAt: number;
+  interval: number | null;
+  callback: () => void;
+}
+
+/**
+ * A clock that only moves when told to. Timers scheduled on it fire in
+ * order as advance() walks time forward, so a whole day of sessions can be
+ * simulated synchronously.
+ */
+export class ManualClock implements Clock, Scheduler {
+  private currentTime: number;
+  private nextId: number = 1;
+  private tasks: Map<number, ScheduledTask> = new Map();
+
+  constructor(startTime: number = 0) {
+    this.currentTime = startTime;
+  }
+
+  public now(): number {
+    return this.currentTime;
+  }
+
+  public setInterval(callback: () => void, ms: number): TaskHandle {
+    return this.schedule(callback, ms, Math.max(1, ms));
+  }
+
+  public clearInterval(handle: TaskHandle): void {
+    this.tasks.delete(handle as unknown as number);
+  }
+
+  public setTimeout(callback: () => void, ms: number): TaskHandle {
+    return this.schedule(callback, ms, null);
+  }
+
+  public clearTimeout(handle: TaskHandle): void {
+    this.tasks.delete(handle as unknown as number);
+  }
+
+  /**
+   * Move time forward by `ms`, firing every task that falls due on the way
+   * at the moment it was due.
+   */
+  public advance(ms: number): void {
+    const target = this.currentTime + ms;
+
+    let task = this.nextDueTask(target);
+    while (task) {
+      this.currentTime = task.runAt;
+      if (task.interval !== null) {
+        task.runAt += task.interval;
+      } else {
+        this.tasks.delete(task.id);
+      }
+      task.callback();
+      task = this.nextDueTask(target);
+    }
+
+    this.currentTime = target;
+  }
+
+  /**
+   * Jump the clock without firing anything, like a laptop waking from sleep.
+   * Overdue tasks fire on the next advance().
+   */
+  public jump(ms: number): void {
+    this.currentTime += ms;
+    this.tasks.forEach(task => {
+      task.runAt = Math.max(task.runAt, this.currentTime);
+    });
+  }
+
+  public getPendingTaskCount(): number {
+    return this.tasks.size;
+  }
+
+  private schedule(callback: () => void, ms: number, interval: number | null): TaskHandle {
+    const id = this.nextId++;
+    this.tasks.set(id, { id, runAt: this.currentTime + Math.max(0, ms), interval, callback });
+    return id as unknown as TaskHandle;
+  }
+
+  private nextDueTask(limit: number): ScheduledTask | null {
+    let next: ScheduledTask | null = null;
+    this.tasks.forEach(task => {
+      if (task.runAt <= limit && (!next || task.runAt < next.runAt)) {
+        next = task;
+      }
+    });
+    return next;
+  }
+}
\ No newline at end of file
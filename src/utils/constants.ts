@@ -1,10 +1,52 @@
-export const DEFAULT_SETTINGS = {
+// Validation, clamping and versioning live in settingsSchema.ts
+export interface Settings {
+  workDuration: number;
+  shortBreak: number;
+  longBreak: number;
+  sessionsUntilLongBreak: number;
+  autoStartBreaks: boolean;
+  autoStartWork: boolean;
+  autoStartBreaksDelay: number;
+  autoStartWorkDelay: number;
+  autoStartLimit: number;
+  cycleResetIdleMinutes: number;
+  cycleResetDaily: boolean;
+  soundEnabled: boolean;
+  profileId: string;
+  cycleTemplateId: string;
+  flowtimeEnabled: boolean;
+  flowtimeBreakRatio: number;
+  interruptionVoidsPomodoro: boolean;
+  extendMinutes: number;
+  snoozeMinutes: number;
+  dayStartHour: number;
+  streakRestDays: number[];
+  streakFreezesPerMonth: number;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
   workDuration: 25, // minutes
   shortBreak: 5,    // minutes
   longBreak: 15,    // minutes
   sessionsUntilLongBreak: 4,
   autoStartBreaks: false,
-  soundEnabled: true
+  autoStartWork: false,
+  autoStartBreaksDelay: 10, // seconds of warning before an automatic start
+  autoStartWorkDelay: 10,
+  autoStartLimit: 0,        // pomodoros in a row before auto-start stops, 0 for no limit
+  cycleResetIdleMinutes: 60, // start the cycle over after this long idle, 0 to never
+  cycleResetDaily: true,
+  soundEnabled: true,
+  profileId: 'classic',
+  cycleTemplateId: 'classic',
+  flowtimeEnabled: false,
+  flowtimeBreakRatio: 0.2, // break length as a share of flowtime focus
+  interruptionVoidsPomodoro: false,
+  extendMinutes: 5,
+  snoozeMinutes: 5, // also used when postponing the next session
+  dayStartHour: 0,   // hours after midnight a new day begins, for statistics and streaks
+  streakRestDays: [], // weekdays, 0 = Sunday
+  streakFreezesPerMonth: 0
 };
 
 export const SESSION_TYPES = {
@@ -13,6 +55,12 @@ export const SESSION_TYPES = {
   LONG_BREAK: 'longBreak'
 } as const;
 
+export const SESSION_TYPE_LABELS: Record<SessionType, string> = {
+  [SESSION_TYPES.WORK]: 'Work',
+  [SESSION_TYPES.SHORT_BREAK]: 'Short break',
+  [SESSION_TYPES.LONG_BREAK]: 'Long break'
+};
+
 export const TIMER_STATES = {
   IDLE: 'idle',
   RUNNING: 'running',
@@ -20,12 +68,48 @@ export const TIMER_STATES = {
   COMPLETED: 'completed'
 } as const;
 
+export const SESSION_OUTCOMES = {
+  COMPLETED: 'completed',
+  SKIPPED: 'skipped',
+  ABANDONED: 'abandoned'
+} as const;
+
+export const INTERRUPTION_TYPES = {
+  INTERNAL: 'internal',
+  EXTERNAL: 'external'
+} as const;
+
+export const TIMER_ACTIONS = {
+  START: 'start',
+  PAUSE: 'pause',
+  RESUME: 'resume',
+  RESET: 'reset',
+  SKIP: 'skip',
+  COMPLETE: 'complete',
+  ADVANCE: 'advance',
+  EXTEND: 'extend',
+  SNOOZE: 'snooze',
+  POSTPONE: 'postpone'
+} as const;
+
 export const STORAGE_KEYS = {
   SETTINGS: 'fokus_settings',
-  STATISTICS: 'fokus_statistics',
-  SESSION_HISTORY: 'fokus_session_history'
+  SESSION_LOG: 'fokus_session_log',
+  DAILY_STATISTICS: 'fokus_daily_statistics',
+  TIMER_SNAPSHOT: 'fokus_timer_snapshot',
+  CYCLE_TEMPLATES: 'fokus_cycle_templates',
+  FOCUS_SCHEDULE: 'fokus_focus_schedule',
+  GOALS: 'fokus_goals',
+  GOAL_HISTORY: 'fokus_goal_history',
+  SETTINGS_PROFILES: 'fokus_settings_profiles',
+  TODO_LIST: 'fokus_todo_list',
+  TODOS_EXPIRE_AT: 'fokus_todos_expire_at',
+  THEME: 'fokus-theme',
+  DAY_BOUNDARY: 'fokus_day_boundary'
 } as const;
 
 export type SessionType = typeof SESSION_TYPES[keyof typeof SESSION_TYPES];
 export type TimerState = typeof TIMER_STATES[keyof typeof TIMER_STATES];
-export type Settings = typeof DEFAULT_SETTINGS;
\ No newline at end of file
+export type SessionOutcome = typeof SESSION_OUTCOMES[keyof typeof SESSION_OUTCOMES];
+export type InterruptionType = typeof INTERRUPTION_TYPES[keyof typeof INTERRUPTION_TYPES];
+export type TimerAction = typeof TIMER_ACTIONS[keyof typeof TIMER_ACTIONS];
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SETTINGS, SESSION_TYPES } from './constants.js';
+import {
+  PRESET_CYCLES,
+  buildClassicCycle,
+  formatCycleSegments,
+  getCyclePosition,
+  isValidCycleTemplate,
+  parseCycleSegments
+} from './cycles.js';
+
+const { WORK, SHORT_BREAK, LONG_BREAK } = SESSION_TYPES;
+
+describe('buildClassicCycle', () => {
+  it('alternates work and short breaks, ending in a long break', () => {
+    const cycle = buildClassicCycle({ ...DEFAULT_SETTINGS, sessionsUntilLongBreak: 3 });
+
+    expect(cycle.segments.map(segment => segment.type)).toEqual([WORK, SHORT_BREAK, WORK, SHORT_BREAK, WORK, LONG_BREAK]);
+    expect(cycle.segments.map(segment => segment.duration)).toEqual([25, 5, 25, 5, 25, 15]);
+  });
+
+  it('always has at least one round', () => {
+    const cycle = buildClassicCycle({ ...DEFAULT_SETTINGS, sessionsUntilLongBreak: 0 });
+    expect(cycle.segments.map(segment => segment.type)).toEqual([WORK, LONG_BREAK]);
+  });
+});
+
+describe('parseCycleSegments', () => {
+  it('reads a type, a length and an optional label per line', () => {
+    expect(parseCycleSegments('work 50 Deep work\n\n  break 10  \nlong 30')).toEqual([
+      { type: WORK, duration: 50, label: 'Deep work' },
+      { type: SHORT_BREAK, duration: 10, label: expect.any(String) },
+      { type: LONG_BREAK, duration: 30, label: expect.any(String) }
+    ]);
+  });
+
+  it('accepts the type aliases in any case', () => {
+    expect(parseCycleSegments('Focus 45\nSHORT 5')?.map(segment => segment.type)).toEqual([WORK, SHORT_BREAK]);
+  });
+
+  it.each([
+    ['empty text', '  \n '],
+    ['an unknown type', 'nap 20'],
+    ['a missing length', 'work'],
+    ['a zero length', 'work 0'],
+    ['an overlong segment', 'work 241']
+  ])('rejects %s', (_, text) => {
+    expect(parseCycleSegments(text)).toBeNull();
+  });
+
+  it('reads back what it formats', () => {
+    PRESET_CYCLES.forEach(cycle => {
+      expect(parseCycleSegments(formatCycleSegments(cycle.segments))).toEqual(cycle.segments);
+    });
+  });
+});
+
+describe('getCyclePosition', () => {
+  it('counts pomodoros up to the long break, a break going with the work before it', () => {
+    const cycle = buildClassicCycle(DEFAULT_SETTINGS);
+
+    expect(getCyclePosition(cycle, 0)).toEqual({ pomodoro: 1, pomodoros: 4, beforeLongBreak: true });
+    expect(getCyclePosition(cycle, 3)).toEqual({ pomodoro: 2, pomodoros: 4, beforeLongBreak: true });
+    expect(getCyclePosition(cycle, 7)).toEqual({ pomodoro: 4, pomodoros: 4, beforeLongBreak: true });
+  });
+
+  it('starts a new set after each long break', () => {
+    const cycle = {
+      id: 'custom',
+      name: 'Two sets',
+      segments: parseCycleSegments('work 25\nlong 15\nwork 25\nshort 5\nwork 25\nshort 5')!
+    };
+
+    expect(getCyclePosition(cycle, 1)).toEqual({ pomodoro: 1, pomodoros: 1, beforeLongBreak: true });
+    expect(getCyclePosition(cycle, 4)).toEqual({ pomodoro: 2, pomodoros: 2, beforeLongBreak: false });
+  });
+});
+
+describe('isValidCycleTemplate', () => {
+  it('accepts the presets', () => {
+    expect(PRESET_CYCLES.every(isValidCycleTemplate)).toBe(true);
+  });
+
+  it('rejects a template without segments or with a bad one', () => {
+    const [preset] = PRESET_CYCLES;
+    expect(isValidCycleTemplate({ ...preset, segments: [] })).toBe(false);
+    expect(isValidCycleTemplate({ ...preset, segments: [{ ...preset.segments[0], duration: 0 }] })).toBe(false);
+  });
+});
\ No newline at end of file
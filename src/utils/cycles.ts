@@ -0,0 +1,152 @@
+import { SESSION_TYPES, SESSION_TYPE_LABELS, type SessionType, type Settings } from './constants.js';
+
+export interface CycleSegment {
+  type: SessionType;
+  duration: number; // minutes
+  label: string;
+}
+
+export interface CycleTemplate {
+  id: string;
+  name: string;
+  segments: CycleSegment[];
+  builtIn?: boolean;
+}
+
+export interface CyclePosition {
+  pomodoro: number;          // 1-based work session within the current set
+  pomodoros: number;         // work sessions in the set
+  beforeLongBreak: boolean;  // the set ends in a long break
+}
+
+export const CLASSIC_CYCLE_ID = 'classic';
+
+// Short names accepted by the template editor, one segment per line
+const TYPE_ALIASES: Record<string, SessionType> = {
+  work: SESSION_TYPES.WORK,
+  focus: SESSION_TYPES.WORK,
+  short: SESSION_TYPES.SHORT_BREAK,
+  break: SESSION_TYPES.SHORT_BREAK,
+  long: SESSION_TYPES.LONG_BREAK
+};
+
+const TYPE_NAMES: Record<SessionType, string> = {
+  [SESSION_TYPES.WORK]: 'work',
+  [SESSION_TYPES.SHORT_BREAK]: 'short',
+  [SESSION_TYPES.LONG_BREAK]: 'long'
+};
+
+export const MAX_SEGMENT_MINUTES = 240;
+
+export const PRESET_CYCLES: CycleTemplate[] = [
+  {
+    id: 'deep-work-90',
+    name: '90 min deep work → 20 min walk',
+    builtIn: true,
+    segments: [
+      { type: SESSION_TYPES.WORK, duration: 90, label: 'Deep Work' },
+      { type: SESSION_TYPES.SHORT_BREAK, duration: 20, label: 'Walk' }
+    ]
+  },
+  {
+    id: 'fifty-ten',
+    name: '50/10 ×3 then 30',
+    builtIn: true,
+    segments: [
+      { type: SESSION_TYPES.WORK, duration: 50, label: 'Focus' },
+      { type: SESSION_TYPES.SHORT_BREAK, duration: 10, label: 'Break' },
+      { type: SESSION_TYPES.WORK, duration: 50, label: 'Focus' },
+      { type: SESSION_TYPES.SHORT_BREAK, duration: 10, label: 'Break' },
+      { type: SESSION_TYPES.WORK, duration: 50, label: 'Focus' },
+      { type: SESSION_TYPES.LONG_BREAK, duration: 30, label: 'Long Break' }
+    ]
+  }
+];
+
+/**
+ * The original work/short/long rotation, rebuilt from the duration settings
+ * so editing them keeps working as before.
+ */
+export function buildClassicCycle(settings: Settings): CycleTemplate {
+  const segments: CycleSegment[] = [];
+  const rounds = Math.max(1, settings.sessionsUntilLongBreak);
+
+  for (let i = 1; i <= rounds; i++) {
+    segments.push({ type: SESSION_TYPES.WORK, duration: settings.workDuration, label: SESSION_TYPE_LABELS.work });
+    segments.push(i === rounds
+      ? { type: SESSION_TYPES.LONG_BREAK, duration: settings.longBreak, label: SESSION_TYPE_LABELS.longBreak }
+      : { type: SESSION_TYPES.SHORT_BREAK, duration: settings.shortBreak, label: SESSION_TYPE_LABELS.shortBreak });
+  }
+
+  return { id: CLASSIC_CYCLE_ID, name: 'Classic Pomodoro', segments, builtIn: true };
+}
+
+/**
+ * Parse editor text such as "work 50 Focus" (one segment per line) into
+ * segments. Returns null if any line is not understood.
+ */
+export function parseCycleSegments(text: string): CycleSegment[] | null {
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line !== '');
+  if (lines.length === 0) return null;
+
+  const segments: CycleSegment[] = [];
+
+  for (const line of lines) {
+    const match = line.match(/^(\w+)\s+(\d+)(?:\s+(.+))?$/);
+    if (!match) return null;
+
+    const type = TYPE_ALIASES[match[1].toLowerCase()];
+    const duration = parseInt(match[2]);
+    if (!type || duration < 1 || duration > MAX_SEGMENT_MINUTES) return null;
+
+    segments.push({ type, duration, label: match[3]?.trim() || SESSION_TYPE_LABELS[type] });
+  }
+
+  return segments;
+}
+
+export function formatCycleSegments(segments: CycleSegment[]): string {
+  return segments.map(segment => `${TYPE_NAMES[segment.type]} ${segment.duration} ${segment.label}`).join('\n');
+}
+
+/**
+ * Where a segment sits among the work sessions leading up to the next long
+ * break (or the end of the cycle). A break counts towards the work session
+ * just before it.
+ */
+export function getCyclePosition(template: CycleTemplate, index: number): CyclePosition {
+  const segments = template.segments;
+
+  let start = index;
+  while (start > 0 && segments[start - 1].type !== SESSION_TYPES.LONG_BREAK) {
+    start--;
+  }
+  let end = index;
+  while (end < segments.length - 1 && segments[end].type !== SESSION_TYPES.LONG_BREAK) {
+    end++;
+  }
+
+  const set = segments.slice(start, end + 1);
+  const done = segments.slice(start, index + 1).filter(segment => segment.type === SESSION_TYPES.WORK).length;
+
+  return {
+    pomodoro: Math.max(1, done),
+    pomodoros: Math.max(1, set.filter(segment => segment.type === SESSION_TYPES.WORK).length),
+    beforeLongBreak: segments[end].type === SESSION_TYPES.LONG_BREAK
+  };
+}
+
+export function isValidCycleTemplate(template: CycleTemplate): boolean {
+  const types: string[] = Object.values(SESSION_TYPES);
+
+  return typeof template?.id === 'string' &&
+    typeof template.name === 'string' &&
+    Array.isArray(template.segments) &&
+    template.segments.length > 0 &&
+    template.segments.every(segment =>
+      types.includes(segment.type) &&
+      typeof segment.duration === 'number' &&
+      segment.duration > 0 &&
+      typeof segment.label === 'string'
+    );
+}
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { addDays, toDateKey, weekdayOf } from './dates.js';
+
+describe('toDateKey', () => {
+  it('uses the local calendar day', () => {
+    expect(toDateKey(new Date(2024, 0, 15, 0, 30))).toBe('2024-01-15');
+    expect(toDateKey(new Date(2024, 0, 15, 23, 59))).toBe('2024-01-15');
+  });
+
+  it('counts the small hours towards the day before when days start later', () => {
+    expect(toDateKey(new Date(2024, 0, 16, 1, 0), 4)).toBe('2024-01-15');
+    expect(toDateKey(new Date(2024, 0, 16, 4, 0), 4)).toBe('2024-01-16');
+    expect(toDateKey(new Date(2024, 2, 1, 3, 59).getTime(), 4)).toBe('2024-02-29');
+  });
+});
+
+describe('day arithmetic', () => {
+  it('steps across months, years and leap days', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    expect(addDays('2023-12-31', 1)).toBe('2024-01-01');
+    expect(addDays('2024-01-15', 7)).toBe('2024-01-22');
+  });
+
+  it('names weekdays from Sunday', () => {
+    expect(weekdayOf('2024-01-14')).toBe(0);
+    expect(weekdayOf('2024-01-15')).toBe(1);
+    expect(weekdayOf('2024-01-20')).toBe(6);
+  });
+});
\ No newline at end of file
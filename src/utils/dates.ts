@@ -0,0 +1,31 @@
+// Days are 'YYYY-MM-DD' strings for the user's local calendar. A day can be
+// set to start a few hours after midnight, so a session at 01:00 still counts
+// towards the evening before it.
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// The day `time` falls in when days start `dayStartHour` hours after midnight
+export function toDateKey(time: number | Date, dayStartHour: number = 0): string {
+  const shifted = new Date(new Date(time).getTime() - dayStartHour * MS_PER_HOUR);
+  return [
+    shifted.getFullYear(),
+    String(shifted.getMonth() + 1).padStart(2, '0'),
+    String(shifted.getDate()).padStart(2, '0')
+  ].join('-');
+}
+
+// Calendar arithmetic on day keys, which has no timezone in it
+export function addDays(date: string, days: number): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().split('T')[0];
+}
+
+export function previousDate(date: string): string {
+  return addDays(date, -1);
+}
+
+// 0 = Sunday, as Date.getDay() and focus blocks count
+export function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
\ No newline at end of file
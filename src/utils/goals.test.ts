@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { emptyDay } from './sessionLog.js';
+import type { DailyStatistics } from './storage.js';
+import {
+  evaluateGoal,
+  formatGoals,
+  goalHitRate,
+  goalPeriodOf,
+  parseGoals,
+  updateGoalHistory,
+  type Goal
+} from './goals.js';
+
+// 2024-01-15 is a Monday
+function days(totals: Record<string, [number, number]>): Record<string, DailyStatistics> {
+  return Object.fromEntries(Object.entries(totals).map(([date, [sessions, minutes]]) =>
+    [date, { ...emptyDay(date), sessionsCompleted: sessions, focusTimeMinutes: minutes }]));
+}
+
+const goal = (text: string): Goal => parseGoals(text)![0];
+
+describe('parseGoals', () => {
+  it('reads pomodoro and focus time targets per day or week', () => {
+    expect(parseGoals('8 pomodoros per day\n\n20 hours per week\nat least 90 min a day')).toEqual([
+      { id: 'sessions-day-0123456', metric: 'sessions', period: 'day', target: 8, days: [0, 1, 2, 3, 4, 5, 6] },
+      { id: 'focusMinutes-week-0123456', metric: 'focusMinutes', period: 'week', target: 1200, days: [0, 1, 2, 3, 4, 5, 6] },
+      { id: 'focusMinutes-day-0123456', metric: 'focusMinutes', period: 'day', target: 90, days: [0, 1, 2, 3, 4, 5, 6] }
+    ]);
+  });
+
+  it('allows "focus" before a unit of time', () => {
+    expect(goal('20 focus hours per week')).toEqual(goal('20 hours per week'));
+    expect(goal('at least 45 focus minutes every weekday')).toMatchObject({ metric: 'focusMinutes', target: 45 });
+  });
+
+  it('reads the days a daily goal applies on', () => {
+    expect(goal('1 session every weekday').days).toEqual([1, 2, 3, 4, 5]);
+    expect(goal('4 pomodoros on mon,wed').days).toEqual([1, 3]);
+    expect(goal('1.5 hours every weekend')).toMatchObject({ target: 90, days: [0, 6] });
+  });
+
+  it.each([
+    ['an unknown unit', '8 apples per day'],
+    ['a fraction of a pomodoro', '2.5 pomodoros per day'],
+    ['a zero target', '0 hours per week'],
+    ['unknown days', '1 session every someday'],
+    ['the same goal twice', '8 pomodoros per day\n6 sessions a day']
+  ])('rejects %s', (_, text) => {
+    expect(parseGoals(text)).toBeNull();
+  });
+
+  it('reads back what it formats', () => {
+    const text = '8 pomodoros per day\n20 hours per week\n45 minutes every weekday\n1 pomodoro every mon,wed';
+    expect(formatGoals(parseGoals(text)!)).toBe(text);
+  });
+});
+
+describe('goal periods', () => {
+  it('puts a day in its week, starting on Monday', () => {
+    expect(goalPeriodOf(goal('20 hours per week'), '2024-01-21')).toBe('2024-01-15');
+    expect(goalPeriodOf(goal('20 hours per week'), '2024-01-22')).toBe('2024-01-22');
+  });
+
+  it('has no period on a day a daily goal is off', () => {
+    expect(goalPeriodOf(goal('1 session every weekday'), '2024-01-19')).toBe('2024-01-19');
+    expect(goalPeriodOf(goal('1 session every weekday'), '2024-01-20')).toBeNull();
+  });
+
+  it('adds up the whole week for a weekly goal', () => {
+    const totals = days({ '2024-01-14': [9, 900], '2024-01-15': [2, 50], '2024-01-21': [4, 100] });
+    expect(evaluateGoal(goal('2 hours per week'), '2024-01-15', totals)).toEqual({
+      goalId: 'focusMinutes-week-0123456',
+      period: '2024-01-15',
+      target: 120,
+      progress: 150,
+      met: true
+    });
+  });
+});
+
+describe('updateGoalHistory', () => {
+  it('fills in the days since the first result, including ones the app was closed for', () => {
+    const daily = goal('2 pomodoros per day');
+    const first = updateGoalHistory([daily], [], days({}), '2024-01-15');
+    const history = updateGoalHistory([daily], first, days({ '2024-01-16': [2, 50] }), '2024-01-17');
+
+    expect(history.map(result => [result.period, result.met])).toEqual([
+      ['2024-01-15', false],
+      ['2024-01-16', true],
+      ['2024-01-17', false]
+    ]);
+  });
+
+  it('keeps the target a finished period had when the goal is raised', () => {
+    const totals = days({ '2024-01-15': [3, 75], '2024-01-16': [3, 75] });
+    const before = updateGoalHistory([goal('2 pomodoros per day')], [], totals, '2024-01-15');
+    const after = updateGoalHistory([goal('4 pomodoros per day')], before, totals, '2024-01-16');
+
+    expect(after.map(result => [result.period, result.target, result.met])).toEqual([
+      ['2024-01-15', 2, true],
+      ['2024-01-16', 4, false]
+    ]);
+  });
+
+  it('keeps the results of goals since removed', () => {
+    const history = updateGoalHistory([goal('2 pomodoros per day')], [], days({}), '2024-01-15');
+    expect(updateGoalHistory([], history, days({}), '2024-01-16')).toEqual(history);
+  });
+});
+
+describe('goalHitRate', () => {
+  it('counts the period under way only once it is met', () => {
+    const result = (period: string, met: boolean) => ({ goalId: 'g', period, target: 1, progress: met ? 1 : 0, met });
+
+    expect(goalHitRate([result('2024-01-15', true), result('2024-01-16', false), result('2024-01-17', false)], '2024-01-17'))
+      .toEqual({ met: 1, periods: 2 });
+    expect(goalHitRate([result('2024-01-16', false), result('2024-01-17', true)], '2024-01-17'))
+      .toEqual({ met: 1, periods: 2 });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,191 @@
+import { getPeriodRange } from './analytics.js';
+import { addDays, weekdayOf } from './dates.js';
+import { formatDays, parseDays } from './schedule.js';
+import type { DailyStatistics } from './storage.js';
+
+export type GoalMetric = 'sessions' | 'focusMinutes';
+export type GoalPeriod = 'day' | 'week';
+
+// A target such as 8 pomodoros a day or 20 focus hours a week
+export interface Goal {
+  id: string;          // the same while only the target changes, so history lines up
+  metric: GoalMetric;
+  period: GoalPeriod;
+  target: number;      // completed work sessions, or minutes of focus
+  days: number[];      // days a daily goal applies on, 0 = Sunday; every day for weekly goals
+}
+
+// How a goal went on one day, or in one week
+export interface GoalResult {
+  goalId: string;
+  period: string;      // the day, or the Monday the week starts on
+  target: number;      // as it was then
+  progress: number;
+  met: boolean;
+}
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+const METRIC_UNITS: Record<string, GoalMetric> = {
+  pomodoro: 'sessions',
+  pomodoros: 'sessions',
+  session: 'sessions',
+  sessions: 'sessions',
+  hour: 'focusMinutes',
+  hours: 'focusMinutes',
+  h: 'focusMinutes',
+  minute: 'focusMinutes',
+  minutes: 'focusMinutes',
+  min: 'focusMinutes',
+  m: 'focusMinutes'
+};
+
+// "every weekday" reads better than "every weekdays"
+const DAY_ALIASES: Record<string, string> = {
+  weekday: 'weekdays',
+  weekend: 'weekends'
+};
+
+/**
+ * Parse editor text such as "8 pomodoros per day", "20 focus hours per week"
+ * or "at least 1 session every weekday" (one goal per line) into goals. Daily
+ * goals may name their days as the schedule editor does. Returns null if any
+ * line is not understood or two lines set the same goal.
+ */
+export function parseGoals(text: string): Goal[] | null {
+  const lines = text.split('\n').map(line => line.trim().toLowerCase()).filter(line => line !== '');
+  const goals: Goal[] = [];
+
+  for (const line of lines) {
+    const match = line.match(/^(?:at least\s+)?(\d+(?:\.\d+)?)\s*(?:focus\s+)?([a-z]+)\s+(?:per|a|an|each|every|on)\s+(\S+)$/);
+    if (!match) return null;
+
+    const metric = METRIC_UNITS[match[2]];
+    const amount = parseFloat(match[1]);
+    if (!metric) return null;
+
+    const target = metric === 'sessions'
+      ? amount
+      : Math.round(match[2].startsWith('h') ? amount * 60 : amount);
+    if (!Number.isInteger(target) || target <= 0) return null;
+
+    const period: GoalPeriod = match[3] === 'week' ? 'week' : 'day';
+    const days = match[3] === 'day' || match[3] === 'week'
+      ? EVERY_DAY
+      : parseDays(DAY_ALIASES[match[3]] ?? match[3]);
+    if (!days) return null;
+
+    const goal: Goal = { id: `${metric}-${period}-${days.join('')}`, metric, period, target, days };
+    if (goals.some(other => other.id === goal.id)) return null;
+    goals.push(goal);
+  }
+
+  return goals;
+}
+
+export function formatGoals(goals: Goal[]): string {
+  return goals.map(formatGoal).join('\n');
+}
+
+export function formatGoal(goal: Goal): string {
+  const when = goal.period === 'week'
+    ? 'per week'
+    : goal.days.length === 7 ? 'per day' : `every ${formatDays(goal.days).replace(/s$/, '')}`;
+  return `${formatTarget(goal, goal.target)} ${when}`;
+}
+
+// An amount in the goal's own unit, e.g. "8 pomodoros" or "1.5 hours"
+function formatTarget(goal: Goal, amount: number): string {
+  if (goal.metric === 'sessions') {
+    return `${amount} pomodoro${amount === 1 ? '' : 's'}`;
+  }
+  if (amount % 30 === 0) {
+    const hours = amount / 60;
+    return `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+  return `${amount} minutes`;
+}
+
+export function isValidGoal(goal: Goal): boolean {
+  return typeof goal?.id === 'string' &&
+    (goal.metric === 'sessions' || goal.metric === 'focusMinutes') &&
+    (goal.period === 'day' || goal.period === 'week') &&
+    Number.isInteger(goal.target) &&
+    goal.target > 0 &&
+    Array.isArray(goal.days) &&
+    goal.days.length > 0 &&
+    goal.days.every(day => Number.isInteger(day) && day >= 0 && day <= 6);
+}
+
+export function isValidGoalResult(result: GoalResult): boolean {
+  return typeof result?.goalId === 'string' &&
+    typeof result.period === 'string' &&
+    typeof result.target === 'number' &&
+    typeof result.progress === 'number' &&
+    typeof result.met === 'boolean';
+}
+
+// The day or week `date` counts towards, or null on a day a daily goal is off
+export function goalPeriodOf(goal: Goal, date: string): string | null {
+  if (goal.period === 'week') return getPeriodRange('week', date).start;
+  return goal.days.includes(weekdayOf(date)) ? date : null;
+}
+
+// Completed sessions or focus minutes so far in the period
+export function goalProgress(goal: Goal, period: string, days: Record<string, DailyStatistics>): number {
+  const dates = goal.period === 'week' ? getPeriodRange('week', period).dates : [period];
+  return dates.reduce((total, date) => {
+    const day = days[date];
+    if (!day) return total;
+    return total + (goal.metric === 'sessions' ? day.sessionsCompleted : day.focusTimeMinutes);
+  }, 0);
+}
+
+export function evaluateGoal(goal: Goal, period: string, days: Record<string, DailyStatistics>, target: number = goal.target): GoalResult {
+  const progress = goalProgress(goal, period, days);
+  return { goalId: goal.id, period, target, progress, met: progress >= target };
+}
+
+/**
+ * Bring the history up to `today`: every period of each goal from its first
+ * result on, including ones the app wasn't open for. Progress is worked out
+ * again from the daily totals, but finished periods keep the target they had,
+ * so raising a goal doesn't rewrite how past weeks went. Results of goals
+ * since removed are kept.
+ */
+export function updateGoalHistory(
+  goals: Goal[],
+  history: GoalResult[],
+  days: Record<string, DailyStatistics>,
+  today: string
+): GoalResult[] {
+  const updated = history.filter(result => !goals.some(goal => goal.id === result.goalId));
+
+  goals.forEach(goal => {
+    const previous = new Map(history.filter(result => result.goalId === goal.id).map(result => [result.period, result]));
+    const current = goal.period === 'week' ? getPeriodRange('week', today).start : today;
+    const step = goal.period === 'week' ? 7 : 1;
+
+    const first = [...previous.keys()].sort()[0];
+    for (let date = first && first < current ? first : current; date <= current; date = addDays(date, step)) {
+      const period = goalPeriodOf(goal, date);
+      if (period === null) continue;
+
+      const target = period < current ? previous.get(period)?.target ?? goal.target : goal.target;
+      updated.push(evaluateGoal(goal, period, days, target));
+    }
+  });
+
+  return updated.sort((a, b) => a.period.localeCompare(b.period) || a.goalId.localeCompare(b.goalId));
+}
+
+// A goal's last `count` results, oldest first
+export function recentResults(history: GoalResult[], goal: Goal, count: number): GoalResult[] {
+  return history.filter(result => result.goalId === goal.id).slice(-count);
+}
+
+// Share of finished periods met; a period still under way counts once it is met
+export function goalHitRate(results: GoalResult[], current: string): { met: number; periods: number } {
+  const counted = results.filter(result => result.period < current || result.met);
+  return { met: counted.filter(result => result.met).length, periods: counted.length };
+}
\ No newline at end of file
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SETTINGS, SESSION_OUTCOMES, SESSION_TYPES } from './constants.js';
+import { toStoredSettings } from './settingsSchema.js';
+import { EXPORT_VERSION, ImportError, parseExport, planImport } from './importSchema.js';
+import type { SessionRecord } from './storage.js';
+
+function session(id: string, date: string = '2024-01-15'): SessionRecord {
+  return {
+    id,
+    date,
+    sessionType: SESSION_TYPES.WORK,
+    duration: 25,
+    completed: true,
+    startTime: `${date}T09:00:00.000Z`,
+    endTime: `${date}T09:25:00.000Z`,
+    outcome: SESSION_OUTCOMES.COMPLETED
+  };
+}
+
+const exportFile = (contents: Record<string, unknown>) => JSON.stringify({ version: EXPORT_VERSION, ...contents });
+
+describe('parseExport', () => {
+  it.each([
+    ['text that is not JSON', '{"version": 2', 'not valid JSON'],
+    ['JSON that is not an object', '[1, 2]', 'not a Fokus export'],
+    ['a newer export', JSON.stringify({ version: EXPORT_VERSION + 1, sessionHistory: [] }), 'newer version'],
+    ['a history that is not a list', exportFile({ sessionHistory: {} }), 'not a list'],
+    ['a file with nothing in it', exportFile({}), 'no settings or sessions']
+  ])('refuses %s', (_, json, message) => {
+    expect(() => parseExport(json)).toThrow(ImportError);
+    expect(() => parseExport(json)).toThrow(message);
+  });
+
+  it('counts sessions that fail the schema and leaves them out', () => {
+    const file = parseExport(exportFile({
+      sessionHistory: [
+        session('a'),
+        { ...session('b'), date: '15/01/2024' },
+        { ...session('c'), startTime: 'yesterday' },
+        { ...session('d'), outcome: 'finished' },
+        { ...session('e'), tags: ['ok', 7] },
+        { ...session('f'), task: 42 },
+        null
+      ]
+    }));
+
+    expect(file.sessions.map(record => record.id)).toEqual(['a']);
+    expect(file.invalidSessions).toBe(6);
+    expect(file.settings).toBeNull();
+  });
+
+  it('checks the fields nested in a session too', () => {
+    const interruption = { type: 'external', timestamp: '2024-01-15T09:10:00.000Z' };
+    const file = parseExport(exportFile({
+      sessionHistory: [
+        { ...session('a'), interruptions: [interruption], extensionCount: 1, extendedSeconds: 300, profileId: 'deep' },
+        { ...session('b'), interruptions: [null] },
+        { ...session('c'), interruptions: [{ ...interruption, type: 'phone' }] },
+        { ...session('d'), interruptions: [{ ...interruption, timestamp: 'later' }] },
+        { ...session('e'), extensionCount: '1' },
+        { ...session('f'), pausedSeconds: null },
+        { ...session('g'), profileId: 3 }
+      ]
+    }));
+
+    expect(file.sessions.map(record => record.id)).toEqual(['a']);
+    expect(file.invalidSessions).toBe(6);
+  });
+
+  it('repairs settings field by field', () => {
+    const file = parseExport(exportFile({
+      settings: toStoredSettings({ ...DEFAULT_SETTINGS, workDuration: 50, shortBreak: -3 })
+    }));
+
+    expect(file.settings?.settings.workDuration).toBe(50);
+    expect(file.settings?.settings.shortBreak).toBe(1);
+    expect(file.settings?.issues.map(issue => issue.field)).toEqual(['shortBreak']);
+  });
+
+  it('turns the daily totals of an unversioned export into recovered sessions', () => {
+    const file = parseExport(JSON.stringify({
+      settings: { workDuration: 30 },
+      sessionHistory: [{ date: '2024-01-14', sessionsCompleted: 2, focusTimeMinutes: 50 }],
+      statistics: { date: '2024-01-15', sessionsCompleted: 1, focusTimeMinutes: 25 }
+    }));
+
+    expect(file.version).toBe(1);
+    expect(file.sessions.map(record => [record.date, record.duration, record.recovered])).toEqual([
+      ['2024-01-14', 25, true],
+      ['2024-01-14', 25, true],
+      ['2024-01-15', 25, true]
+    ]);
+    expect(file.settings?.settings.workDuration).toBe(30);
+  });
+
+  it('leaves out daily totals with a malformed focus time', () => {
+    const file = parseExport(JSON.stringify({
+      sessionHistory: [{ date: '2024-01-14', sessionsCompleted: 2, focusTimeMinutes: 'fifty' }]
+    }));
+
+    expect(file.sessions).toEqual([]);
+    expect(file.invalidSessions).toBe(1);
+  });
+});
+
+describe('planImport', () => {
+  const existing = [session('a', '2024-01-14'), session('b', '2024-01-15')];
+  const file = parseExport(exportFile({
+    sessionHistory: [{ ...session('b'), duration: 50 }, session('c', '2024-01-16'), session('c', '2024-01-16')]
+  }));
+
+  it('merges in new sessions and keeps the copy here of ones in both', () => {
+    const plan = planImport(file, existing, DEFAULT_SETTINGS, 'merge');
+
+    expect(plan.sessions.map(record => [record.id, record.duration])).toEqual([['a', 25], ['b', 25], ['c', 25]]);
+    expect(plan.report).toMatchObject({ newSessions: 1, duplicateSessions: 2, removedSessions: 0 });
+    expect(plan.settings).toBeNull();
+  });
+
+  it("replaces the log with the file's sessions", () => {
+    const plan = planImport(file, existing, DEFAULT_SETTINGS, 'replace');
+
+    expect(plan.sessions.map(record => [record.id, record.duration])).toEqual([['b', 50], ['c', 25]]);
+    expect(plan.report).toMatchObject({ newSessions: 1, duplicateSessions: 2, removedSessions: 1 });
+  });
+
+  it('lists the settings that would change', () => {
+    const withSettings = parseExport(exportFile({ settings: toStoredSettings({ ...DEFAULT_SETTINGS, workDuration: 50 }) }));
+    const plan = planImport(withSettings, [], DEFAULT_SETTINGS, 'merge');
+
+    expect(plan.report.settingsChanges).toEqual([{ field: 'workDuration', label: expect.any(String), from: 25, to: 50 }]);
+    expect(plan.settings?.workDuration).toBe(50);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,220 @@
+import { INTERRUPTION_TYPES, SESSION_OUTCOMES, type Settings } from './constants.js';
+import {
+  SETTINGS_SCHEMA,
+  parseStoredSettings,
+  type SettingsIssue,
+  type SettingsValidation
+} from './settingsSchema.js';
+import { isValidSessionRecord, recoverSessionRecords, sortSessionRecords } from './sessionLog.js';
+import type { Interruption, SessionRecord } from './storage.js';
+
+// Bump when the export shape changes, and teach parseExport the old one.
+// Version 1 is the unversioned export of earlier builds: bare settings, and
+// history in either legacy format plus one day's totals under `statistics`.
+export const EXPORT_VERSION = 2;
+
+export type ImportMode = 'merge' | 'replace';
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// An export file once checked against its version's schema
+export interface ExportFile {
+  version: number;
+  settings: SettingsValidation | null;  // null when the file has none
+  sessions: SessionRecord[];            // in file order, including repeats of an id
+  invalidSessions: number;
+}
+
+export interface SettingsChange {
+  field: keyof Settings;
+  label: string;
+  from: Settings[keyof Settings];
+  to: Settings[keyof Settings];
+}
+
+// The dry run: what importing would do, before anything is written
+export interface ImportReport {
+  mode: ImportMode;
+  version: number;
+  newSessions: number;
+  duplicateSessions: number;   // already here, or repeated in the file
+  invalidSessions: number;
+  removedSessions: number;     // replace only: sessions here that the file doesn't have
+  settingsChanges: SettingsChange[];
+  settingsIssues: SettingsIssue[];
+}
+
+export interface ImportPlan {
+  report: ImportReport;
+  sessions: SessionRecord[];   // the whole log after the import
+  settings: Settings | null;   // settings to save, null to leave them alone
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const OUTCOMES: string[] = Object.values(SESSION_OUTCOMES);
+const INTERRUPTION_KINDS: string[] = Object.values(INTERRUPTION_TYPES);
+
+/**
+ * Read an export file. Throws an ImportError if it isn't one, or is from a
+ * newer version; otherwise sessions that fail the schema are counted and left
+ * out, and settings are repaired field by field as when loading them.
+ */
+export function parseExport(json: string): ExportFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new ImportError('The file is not valid JSON.');
+  }
+  if (!isObject(data)) {
+    throw new ImportError('The file is not a Fokus export.');
+  }
+
+  const version = data.version ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new ImportError('The file has an unknown export version.');
+  }
+  if (version > EXPORT_VERSION) {
+    throw new ImportError('The file was exported by a newer version of Fokus. Update the app to import it.');
+  }
+
+  const history = data.sessionHistory;
+  if (history !== undefined && !Array.isArray(history)) {
+    throw new ImportError('The session history in the file is not a list.');
+  }
+  if (data.settings === undefined && history === undefined && data.statistics === undefined) {
+    throw new ImportError('The file has no settings or sessions in it.');
+  }
+
+  const settings = data.settings === undefined ? null : parseStoredSettings(data.settings);
+  const entries: unknown[] = history ?? [];
+
+  if (version === 1) {
+    // Legacy daily totals become recovered sessions, as when migrating
+    const legacy = [...entries, ...(data.statistics !== undefined ? [data.statistics] : [])];
+    const usable = legacy.filter(entry => isImportableSession(entry) || isLegacyTotals(entry));
+    return {
+      version,
+      settings,
+      sessions: recoverSessionRecords(usable),
+      invalidSessions: legacy.length - usable.length
+    };
+  }
+
+  const sessions = entries.filter(isImportableSession);
+  return { version, settings, sessions, invalidSessions: entries.length - sessions.length };
+}
+
+/**
+ * Work out the log and settings an import leaves behind. Merging keeps every
+ * session here and adds the file's new ones; for an id in both, the copy
+ * here wins. Replacing keeps only the file's sessions.
+ */
+export function planImport(file: ExportFile, existing: SessionRecord[], current: Settings, mode: ImportMode): ImportPlan {
+  const known = new Set(existing.map(record => record.id));
+  const imported = new Map<string, SessionRecord>();
+  let newSessions = 0;
+  let duplicateSessions = 0;
+
+  file.sessions.forEach(record => {
+    if (imported.has(record.id)) {
+      duplicateSessions++;
+      return;
+    }
+    imported.set(record.id, record);
+    if (known.has(record.id)) {
+      duplicateSessions++;
+    } else {
+      newSessions++;
+    }
+  });
+
+  const sessions = mode === 'merge'
+    ? [...existing, ...[...imported.values()].filter(record => !known.has(record.id))]
+    : [...imported.values()];
+
+  const settings = file.settings?.settings ?? null;
+  return {
+    report: {
+      mode,
+      version: file.version,
+      newSessions,
+      duplicateSessions,
+      invalidSessions: file.invalidSessions,
+      removedSessions: mode === 'replace' ? existing.filter(record => !imported.has(record.id)).length : 0,
+      settingsChanges: settings ? diffSettings(current, settings) : [],
+      settingsIssues: file.settings?.issues ?? []
+    },
+    sessions: sortSessionRecords(sessions),
+    settings
+  };
+}
+
+function diffSettings(from: Settings, to: Settings): SettingsChange[] {
+  return (Object.keys(SETTINGS_SCHEMA) as (keyof Settings)[])
+    .filter(field => String(from[field]) !== String(to[field]))
+    .map(field => ({ field, label: SETTINGS_SCHEMA[field].label, from: from[field], to: to[field] }));
+}
+
+// Stricter than what the log accepts from its own writes: a file may come from anywhere
+function isImportableSession(entry: unknown): entry is SessionRecord {
+  const record = entry as SessionRecord;
+  return isValidSessionRecord(record) &&
+    record.id !== '' &&
+    DATE_PATTERN.test(record.date) &&
+    isTimestamp(record.startTime) &&
+    (record.endTime === undefined || isTimestamp(record.endTime)) &&
+    Number.isFinite(record.duration) &&
+    record.duration >= 0 &&
+    (record.outcome === undefined || OUTCOMES.includes(record.outcome)) &&
+    isOptionalNumber(record.focusedSeconds) &&
+    isOptionalNumber(record.pausedSeconds) &&
+    isOptionalNumber(record.pauseCount) &&
+    isOptionalNumber(record.extensionCount) &&
+    isOptionalNumber(record.extendedSeconds) &&
+    (record.interruptions === undefined || (Array.isArray(record.interruptions) && record.interruptions.every(isInterruption))) &&
+    isOptionalString(record.profileId) &&
+    isOptionalString(record.todoId) &&
+    isOptionalString(record.task) &&
+    (record.tags === undefined || (Array.isArray(record.tags) && record.tags.every(tag => typeof tag === 'string')));
+}
+
+function isInterruption(entry: unknown): entry is Interruption {
+  return isObject(entry) &&
+    INTERRUPTION_KINDS.includes(entry.type as string) &&
+    typeof entry.timestamp === 'string' &&
+    isTimestamp(entry.timestamp) &&
+    isOptionalString(entry.note);
+}
+
+function isLegacyTotals(entry: unknown): boolean {
+  return isObject(entry) &&
+    typeof entry.date === 'string' &&
+    DATE_PATTERN.test(entry.date) &&
+    typeof entry.sessionsCompleted === 'number' &&
+    Number.isFinite(entry.sessionsCompleted) &&
+    isOptionalNumber(entry.focusTimeMinutes) &&
+    isOptionalNumber(entry.sessionsSkipped) &&
+    isOptionalNumber(entry.sessionsAbandoned);
+}
+
+function isTimestamp(value: string): boolean {
+  return !Number.isNaN(Date.parse(value));
+}
+
+function isOptionalNumber(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && Number.isFinite(value));
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
\ No newline at end of file
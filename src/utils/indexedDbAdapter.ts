@@ -0,0 +1,193 @@
+import {
+  STORE_NAMES,
+  STORE_SCHEMAS,
+  recordKey,
+  type StorageAdapter,
+  type StorageChange,
+  type StorageEntry,
+  type StorageQuery,
+  type StorageTransaction,
+  type StoreName
+} from './storageAdapter.js';
+
+const DATABASE_NAME = 'fokus';
+const DATABASE_VERSION = 1;
+
+// Other tabs get no event when the database changes, so writes are announced here
+const CHANGES_CHANNEL = 'fokus-storage';
+
+/**
+ * Storage in IndexedDB, one object store per store name with the indexes
+ * from STORE_SCHEMAS. Key-value entries are kept as { key, value } records.
+ */
+export class IndexedDbAdapter implements StorageAdapter {
+  public readonly name = 'indexeddb';
+  private static opening: Promise<IndexedDbAdapter | null> | null = null;
+  private db: IDBDatabase;
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Set<(change: StorageChange) => void>();
+
+  private constructor(db: IDBDatabase) {
+    this.db = db;
+
+    // Let a newer version of the app upgrade the schema from another tab
+    this.db.onversionchange = () => this.db.close();
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANGES_CHANNEL);
+      this.channel.addEventListener('message', (event: MessageEvent<StorageChange[]>) => {
+        event.data.forEach(change => this.listeners.forEach(listener => listener(change)));
+      });
+    }
+  }
+
+  public static isSupported(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  /**
+   * Opened once and shared. Resolves to null when IndexedDB is missing or
+   * refuses to open (some private browsing modes), so the caller can pick
+   * another adapter.
+   */
+  public static open(): Promise<IndexedDbAdapter | null> {
+    IndexedDbAdapter.opening ??= new Promise(resolve => {
+      if (!IndexedDbAdapter.isSupported()) {
+        resolve(null);
+        return;
+      }
+
+      try {
+        const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+        request.onupgradeneeded = () => IndexedDbAdapter.createStores(request.result);
+        request.onsuccess = () => resolve(new IndexedDbAdapter(request.result));
+        request.onerror = () => {
+          console.warn('Failed to open database:', request.error);
+          resolve(null);
+        };
+        request.onblocked = () => {
+          console.warn('Database upgrade blocked by another tab');
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn('Failed to open database:', error);
+        resolve(null);
+      }
+    });
+    return IndexedDbAdapter.opening;
+  }
+
+  private static createStores(db: IDBDatabase): void {
+    STORE_NAMES.forEach(store => {
+      const { keyPath, indexes } = STORE_SCHEMAS[store];
+      const objectStore = db.createObjectStore(store, { keyPath: keyPath ?? 'key' });
+      Object.entries(indexes).forEach(([index, field]) => {
+        objectStore.createIndex(index, field, { multiEntry: true });
+      });
+    });
+  }
+
+  public get<T>(store: StoreName, key: string): Promise<T | undefined> {
+    return this.read(store, objectStore => objectStore.get(key))
+      .then(record => record === undefined ? undefined : this.unwrap(store, record) as T);
+  }
+
+  public put(store: StoreName, key: string, value: unknown): Promise<void> {
+    return this.transaction([store], transaction => transaction.put(store, key, value));
+  }
+
+  public delete(store: StoreName, key: string): Promise<void> {
+    return this.transaction([store], transaction => transaction.delete(store, key));
+  }
+
+  public async list<T>(store: StoreName, query?: StorageQuery): Promise<StorageEntry<T>[]> {
+    const records = await this.read<unknown[]>(store, objectStore => query
+      ? objectStore.index(query.index).getAll(this.toKeyRange(query))
+      : objectStore.getAll());
+
+    return records.map(record => STORE_SCHEMAS[store].keyPath
+      ? { key: recordKey(store, record), value: record as T }
+      : record as StorageEntry<T>);
+  }
+
+  public transaction(stores: StoreName[], work: (transaction: StorageTransaction) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const changes: StorageChange[] = [];
+
+      try {
+        const transaction = this.db.transaction(stores, 'readwrite');
+        transaction.oncomplete = () => {
+          this.announce(changes);
+          resolve();
+        };
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+
+        try {
+          work({
+            put: (store, key, value) => {
+              transaction.objectStore(store).put(this.wrap(store, key, value));
+              changes.push({ store, key });
+            },
+            delete: (store, key) => {
+              transaction.objectStore(store).delete(key);
+              changes.push({ store, key });
+            },
+            clear: store => {
+              transaction.objectStore(store).clear();
+              changes.push({ store, key: null });
+            }
+          });
+        } catch (error) {
+          transaction.abort();
+          reject(error);
+        }
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  public subscribe(listener: (change: StorageChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private read<T>(store: StoreName, work: (objectStore: IDBObjectStore) => IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      try {
+        const request = work(this.db.transaction(store, 'readonly').objectStore(store));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  private toKeyRange({ equals, from, to }: StorageQuery): IDBKeyRange | undefined {
+    if (equals !== undefined) return IDBKeyRange.only(equals);
+    if (from !== undefined && to !== undefined) return IDBKeyRange.bound(from, to);
+    if (from !== undefined) return IDBKeyRange.lowerBound(from);
+    if (to !== undefined) return IDBKeyRange.upperBound(to);
+    return undefined;
+  }
+
+  private wrap(store: StoreName, key: string, value: unknown): unknown {
+    return STORE_SCHEMAS[store].keyPath ? value : { key, value };
+  }
+
+  private unwrap(store: StoreName, record: unknown): unknown {
+    return STORE_SCHEMAS[store].keyPath ? record : (record as StorageEntry).value;
+  }
+
+  private announce(changes: StorageChange[]): void {
+    if (changes.length === 0) return;
+
+    try {
+      this.channel?.postMessage(changes);
+    } catch (error) {
+      console.warn('Failed to tell other tabs about a change:', error);
+    }
+  }
+}
\ No newline at end of file
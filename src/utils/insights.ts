@@ -0,0 +1,185 @@
+import { SESSION_OUTCOMES, SESSION_TYPES } from './constants.js';
+import {
+  NO_STREAK_RULES,
+  buildDailyStatistics,
+  sessionMinutes,
+  sessionOutcome,
+  type StreakRules
+} from './sessionLog.js';
+import { formatDate, formatMinutes } from './analytics.js';
+import { weekdayOf } from './dates.js';
+import type { DailyStatistics, SessionRecord } from './storage.js';
+
+// Work sessions in one hour of the day or one weekday
+export interface TimeBucket {
+  attempted: number;
+  completed: number;
+  abandoned: number;
+  focusMinutes: number;
+}
+
+export interface StreakWindow {
+  start: string;
+  end: string;
+  days: number;
+}
+
+export interface Insights {
+  byHour: TimeBucket[];            // 24, by the local hour a session started
+  byWeekday: TimeBucket[];         // 7, Monday first
+  firstSessionAt: number | null;   // typical minutes after midnight, null without sessions
+  lastSessionAt: number | null;
+  bestStreak: StreakWindow | null;
+  suggestions: string[];
+}
+
+export const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Fewer sessions than this in an hour or weekday say nothing about it
+const MIN_SESSIONS = 5;
+
+// Rates worth mentioning
+const HIGH_ABANDON_RATE = 0.3;
+const HIGH_COMPLETION_RATE = 0.8;
+const LOW_COMPLETION_RATE = 0.5;
+
+/**
+ * When work goes well, from the session log. Times of day are the browser's
+ * local time. Recovered sessions only know their day, so they count towards
+ * weekdays and streaks but not hours or first and last session times.
+ * Streaks follow `rules`, as in the stats strip. First and last sessions are
+ * taken from the day as it runs from `dayStartHour`, so a session at 01:00
+ * on a day that starts at 04:00 is a late one, not an early one.
+ */
+export function buildInsights(records: SessionRecord[], rules: StreakRules = NO_STREAK_RULES, dayStartHour: number = 0): Insights {
+  const work = records.filter(record => record.sessionType === SESSION_TYPES.WORK);
+  const timed = work.filter(record => !record.recovered);
+
+  const byHour = Array.from({ length: 24 }, emptyBucket);
+  timed.forEach(record => addToBucket(byHour[new Date(record.startTime).getHours()], record));
+
+  const byWeekday = Array.from({ length: 7 }, emptyBucket);
+  work.forEach(record => addToBucket(byWeekday[weekdayIndex(record.date)], record));
+
+  const insights: Insights = {
+    byHour,
+    byWeekday,
+    firstSessionAt: null,
+    lastSessionAt: null,
+    bestStreak: findBestStreak(records, rules),
+    suggestions: []
+  };
+
+  // Minutes since the day started, turned back into a time of day at the end
+  const dayStart = dayStartHour * 60;
+  const days = new Map<string, number[]>();
+  timed.forEach(record => {
+    const started = new Date(record.startTime);
+    const times = days.get(record.date) ?? [];
+    times.push((started.getHours() * 60 + started.getMinutes() - dayStart + MINUTES_PER_DAY) % MINUTES_PER_DAY);
+    days.set(record.date, times);
+  });
+  if (days.size > 0) {
+    const timeOfDay = (minutes: number) => (Math.round(minutes) + dayStart) % MINUTES_PER_DAY;
+    insights.firstSessionAt = timeOfDay(median([...days.values()].map(times => Math.min(...times))));
+    insights.lastSessionAt = timeOfDay(median([...days.values()].map(times => Math.max(...times))));
+  }
+
+  insights.suggestions = buildSuggestions(insights);
+  return insights;
+}
+
+export function formatHourRange(hour: number): string {
+  return `${formatTimeOfDay(hour * 60)}–${formatTimeOfDay(((hour + 1) % 24) * 60)}`;
+}
+
+export function formatTimeOfDay(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(Math.round(minutes % 60)).padStart(2, '0')}`;
+}
+
+export function completionRate(bucket: TimeBucket): number | null {
+  return bucket.attempted > 0 ? bucket.completed / bucket.attempted : null;
+}
+
+// Plain-language notes on the clearest patterns, most telling first
+function buildSuggestions({ byHour, byWeekday, bestStreak }: Insights): string[] {
+  const suggestions: string[] = [];
+  const hours = byHour.map((bucket, hour) => ({ bucket, hour })).filter(({ bucket }) => bucket.attempted >= MIN_SESSIONS);
+  const weekdays = byWeekday.map((bucket, day) => ({ bucket, day })).filter(({ bucket }) => bucket.attempted >= MIN_SESSIONS);
+
+  const abandonRate = (bucket: TimeBucket) => bucket.abandoned / bucket.attempted;
+  const worstHour = hours.filter(({ bucket }) => abandonRate(bucket) >= HIGH_ABANDON_RATE)
+    .sort((a, b) => abandonRate(b.bucket) - abandonRate(a.bucket))[0];
+  if (worstHour) {
+    suggestions.push(`Your ${formatHourRange(worstHour.hour)} sessions are abandoned ${percent(abandonRate(worstHour.bucket))} of the time. Consider keeping that hour for lighter tasks or a break.`);
+  }
+
+  const bestHour = hours.filter(({ bucket, hour }) => completionRate(bucket)! >= HIGH_COMPLETION_RATE && hour !== worstHour?.hour)
+    .sort((a, b) => completionRate(b.bucket)! - completionRate(a.bucket)! || b.bucket.attempted - a.bucket.attempted)[0];
+  if (bestHour) {
+    suggestions.push(`You complete ${percent(completionRate(bestHour.bucket)!)} of the sessions you start at ${formatHourRange(bestHour.hour)}. It's a good slot for your most demanding work.`);
+  }
+
+  const totalFocus = byWeekday.reduce((total, bucket) => total + bucket.focusMinutes, 0);
+  const strongestDay = [...weekdays].sort((a, b) => b.bucket.focusMinutes - a.bucket.focusMinutes)[0];
+  if (strongestDay && totalFocus > 0) {
+    suggestions.push(`${WEEKDAY_NAMES[strongestDay.day]} is your strongest day, with ${percent(strongestDay.bucket.focusMinutes / totalFocus)} of your focus time (${formatMinutes(strongestDay.bucket.focusMinutes)}).`);
+  }
+
+  const weakestDay = weekdays.filter(({ bucket }) => completionRate(bucket)! < LOW_COMPLETION_RATE)
+    .sort((a, b) => completionRate(a.bucket)! - completionRate(b.bucket)!)[0];
+  if (weakestDay) {
+    suggestions.push(`Only ${percent(completionRate(weakestDay.bucket)!)} of your ${WEEKDAY_NAMES[weakestDay.day]} sessions are completed. Shorter sessions may be easier to finish that day.`);
+  }
+
+  if (bestStreak && bestStreak.days >= 3) {
+    suggestions.push(`Your longest run was ${bestStreak.days} days in a row, from ${formatDate(bestStreak.start, { month: 'short', day: 'numeric' })} to ${formatDate(bestStreak.end, { month: 'short', day: 'numeric', year: 'numeric' })}.`);
+  }
+
+  return suggestions;
+}
+
+// The longest run, from its first day of work to its last
+function findBestStreak(records: SessionRecord[], rules: StreakRules): StreakWindow | null {
+  const days = Object.values(buildDailyStatistics(records, rules)).sort((a, b) => a.date.localeCompare(b.date));
+  const best = days.reduce<DailyStatistics | null>((longest, day) =>
+    day.streak > (longest?.streak ?? 0) ? day : longest, null);
+  if (!best) return null;
+
+  const start = days.filter(day => day.date <= best.date && day.streak === 1 && day.sessionsCompleted > 0).pop()!;
+  return { start: start.date, end: best.date, days: best.streak };
+}
+
+function emptyBucket(): TimeBucket {
+  return { attempted: 0, completed: 0, abandoned: 0, focusMinutes: 0 };
+}
+
+function addToBucket(bucket: TimeBucket, record: SessionRecord): void {
+  const outcome = sessionOutcome(record);
+  bucket.attempted++;
+
+  if (outcome === SESSION_OUTCOMES.COMPLETED) {
+    bucket.completed++;
+    bucket.focusMinutes += Math.round(sessionMinutes(record));
+  } else if (outcome === SESSION_OUTCOMES.ABANDONED) {
+    bucket.abandoned++;
+  }
+}
+
+// Monday is 0
+function weekdayIndex(date: string): number {
+  return (weekdayOf(date) + 6) % 7;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
\ No newline at end of file
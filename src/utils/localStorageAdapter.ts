@@ -0,0 +1,178 @@
+import { STORAGE_KEYS } from './constants.js';
+import {
+  STORE_SCHEMAS,
+  matchesQuery,
+  recordKey,
+  type StorageAdapter,
+  type StorageChange,
+  type StorageEntry,
+  type StorageQuery,
+  type StorageTransaction,
+  type StoreName
+} from './storageAdapter.js';
+
+// Records are kept as one JSON array per store; settings entries each get
+// their own localStorage key, so existing keys read as they always have
+const COLLECTION_KEYS: Partial<Record<StoreName, string>> = {
+  sessions: STORAGE_KEYS.SESSION_LOG,
+  todos: STORAGE_KEYS.TODO_LIST
+};
+
+// Settings entries are the app's own keys, all of which start with this
+const KEY_PREFIX = 'fokus';
+
+/**
+ * Storage in localStorage, for browsers without IndexedDB. Other tabs'
+ * writes arrive as `storage` events.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  public readonly name = 'localstorage';
+
+  public static isSupported(): boolean {
+    try {
+      return typeof localStorage !== 'undefined';
+    } catch {
+      // Reading localStorage itself throws when storage is blocked
+      return false;
+    }
+  }
+
+  public async get<T>(store: StoreName, key: string): Promise<T | undefined> {
+    if (COLLECTION_KEYS[store]) {
+      return this.readCollection(store).find(value => recordKey(store, value) === key) as T | undefined;
+    }
+
+    const saved = localStorage.getItem(key);
+    return saved === null ? undefined : parseJson(saved) as T;
+  }
+
+  public put(store: StoreName, key: string, value: unknown): Promise<void> {
+    return this.transaction([store], transaction => transaction.put(store, key, value));
+  }
+
+  public delete(store: StoreName, key: string): Promise<void> {
+    return this.transaction([store], transaction => transaction.delete(store, key));
+  }
+
+  public async list<T>(store: StoreName, query?: StorageQuery): Promise<StorageEntry<T>[]> {
+    const entries: StorageEntry[] = COLLECTION_KEYS[store]
+      ? this.readCollection(store).map(value => ({ key: recordKey(store, value), value }))
+      : this.settingsKeys().map(key => ({ key, value: parseJson(localStorage.getItem(key) ?? 'null') }));
+
+    return (query ? entries.filter(entry => matchesQuery(store, entry.value, query)) : entries) as StorageEntry<T>[];
+  }
+
+  /**
+   * Writes are staged, then applied key by key. If one fails (usually the
+   * quota) every key already written is put back as it was.
+   */
+  public async transaction(stores: StoreName[], work: (transaction: StorageTransaction) => void): Promise<void> {
+    const collections = new Map<StoreName, Map<string, unknown>>();
+    const entries = new Map<string, unknown>();  // settings key → value, undefined to remove
+
+    const collection = (store: StoreName) => {
+      if (!stores.includes(store)) {
+        throw new Error(`Store ${store} is not part of this transaction`);
+      }
+      if (!collections.has(store)) {
+        collections.set(store, new Map(this.readCollection(store).map(value => [recordKey(store, value), value])));
+      }
+      return collections.get(store)!;
+    };
+
+    work({
+      put: (store, key, value) => {
+        if (COLLECTION_KEYS[store]) {
+          collection(store).set(key, value);
+        } else {
+          entries.set(key, value);
+        }
+      },
+      delete: (store, key) => {
+        if (COLLECTION_KEYS[store]) {
+          collection(store).delete(key);
+        } else {
+          entries.set(key, undefined);
+        }
+      },
+      clear: store => {
+        if (COLLECTION_KEYS[store]) {
+          collection(store).clear();
+        } else {
+          this.settingsKeys().forEach(key => entries.set(key, undefined));
+        }
+      }
+    });
+
+    const writes = new Map<string, string | null>();
+    collections.forEach((values, store) => {
+      writes.set(COLLECTION_KEYS[store]!, values.size > 0 ? JSON.stringify([...values.values()]) : null);
+    });
+    entries.forEach((value, key) => {
+      writes.set(key, value === undefined ? null : JSON.stringify(value));
+    });
+
+    const previous = new Map([...writes.keys()].map(key => [key, localStorage.getItem(key)]));
+    try {
+      writes.forEach((value, key) => this.write(key, value));
+    } catch (error) {
+      previous.forEach((value, key) => this.write(key, value));
+      throw error;
+    }
+  }
+
+  public subscribe(listener: (change: StorageChange) => void): () => void {
+    const handleStorage = (event: StorageEvent) => {
+      // localStorage.clear() in another tab
+      if (event.key === null) {
+        (Object.keys(STORE_SCHEMAS) as StoreName[]).forEach(store => listener({ store, key: null }));
+        return;
+      }
+
+      const store = (Object.keys(COLLECTION_KEYS) as StoreName[]).find(name => COLLECTION_KEYS[name] === event.key);
+      if (store) {
+        listener({ store, key: null });
+      } else if (event.key.startsWith(KEY_PREFIX)) {
+        listener({ store: 'settings', key: event.key });
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+
+  private readCollection(store: StoreName): unknown[] {
+    const saved = parseJson(localStorage.getItem(COLLECTION_KEYS[store]!) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  }
+
+  private settingsKeys(): string[] {
+    const collectionKeys = Object.values(COLLECTION_KEYS);
+    const keys: string[] = [];
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null && key.startsWith(KEY_PREFIX) && !collectionKeys.includes(key)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  private write(key: string, value: string | null): void {
+    if (value === null) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, value);
+    }
+  }
+}
+
+// Values written by older builds aren't always JSON (the theme was a bare word)
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,106 @@
+import {
+  STORE_NAMES,
+  matchesQuery,
+  type StorageAdapter,
+  type StorageChange,
+  type StorageEntry,
+  type StorageQuery,
+  type StorageTransaction,
+  type StoreName
+} from './storageAdapter.js';
+
+// Values are held as JSON, so callers get copies just as from real storage
+export type MemoryData = Map<StoreName, Map<string, string>>;
+
+// Adapters created over the same data, standing in for tabs sharing storage
+const peers = new WeakMap<MemoryData, Set<MemoryStorageAdapter>>();
+
+/**
+ * Storage that lives only as long as the page: the last resort when the
+ * browser allows no persistent storage, and a clean slate for running
+ * components on their own. Pass the same `data` to several adapters to have
+ * them see each other's changes, like tabs do.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  public readonly name = 'memory';
+  private data: MemoryData;
+  private listeners = new Set<(change: StorageChange) => void>();
+
+  constructor(data: MemoryData = new Map()) {
+    this.data = data;
+    STORE_NAMES.forEach(store => {
+      if (!data.has(store)) {
+        data.set(store, new Map());
+      }
+    });
+
+    if (!peers.has(data)) {
+      peers.set(data, new Set());
+    }
+    peers.get(data)!.add(this);
+  }
+
+  public async get<T>(store: StoreName, key: string): Promise<T | undefined> {
+    const saved = this.store(store).get(key);
+    return saved === undefined ? undefined : JSON.parse(saved) as T;
+  }
+
+  public put(store: StoreName, key: string, value: unknown): Promise<void> {
+    return this.transaction([store], transaction => transaction.put(store, key, value));
+  }
+
+  public delete(store: StoreName, key: string): Promise<void> {
+    return this.transaction([store], transaction => transaction.delete(store, key));
+  }
+
+  public async list<T>(store: StoreName, query?: StorageQuery): Promise<StorageEntry<T>[]> {
+    const entries = [...this.store(store)].map(([key, saved]) => ({ key, value: JSON.parse(saved) as T }));
+    return query ? entries.filter(entry => matchesQuery(store, entry.value, query)) : entries;
+  }
+
+  // Staged on copies of the stores involved, which replace them only if `work` succeeds
+  public async transaction(stores: StoreName[], work: (transaction: StorageTransaction) => void): Promise<void> {
+    const staged = new Map(stores.map(store => [store, new Map(this.store(store))]));
+    const changes: StorageChange[] = [];
+    const target = (store: StoreName) => {
+      const values = staged.get(store);
+      if (!values) {
+        throw new Error(`Store ${store} is not part of this transaction`);
+      }
+      return values;
+    };
+
+    work({
+      put: (store, key, value) => {
+        target(store).set(key, JSON.stringify(value));
+        changes.push({ store, key });
+      },
+      delete: (store, key) => {
+        target(store).delete(key);
+        changes.push({ store, key });
+      },
+      clear: store => {
+        target(store).clear();
+        changes.push({ store, key: null });
+      }
+    });
+
+    staged.forEach((values, store) => this.data.set(store, values));
+
+    // Delivered later, as another tab would see them
+    peers.get(this.data)?.forEach(peer => {
+      if (peer !== this) {
+        queueMicrotask(() => changes.forEach(change => peer.listeners.forEach(listener => listener(change))));
+      }
+    });
+  }
+
+  public subscribe(listener: (change: StorageChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private store(store: StoreName): Map<string, string> {
+    return this.data.get(store) ?? new Map();
+  }
+}
\ No newline at end of file
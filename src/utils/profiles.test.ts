@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_SETTINGS } from './constants.js';
+import { BUILT_IN_PROFILES, isValidSettingsProfile, matchesProfile } from './profiles.js';
+
+describe('matchesProfile', () => {
+  const [classic, deepWork] = BUILT_IN_PROFILES;
+
+  it('compares only the settings a profile switches', () => {
+    expect(matchesProfile({ ...DEFAULT_SETTINGS, dayStartHour: 4, extendMinutes: 10 }, classic)).toBe(true);
+    expect(matchesProfile({ ...DEFAULT_SETTINGS, ...deepWork.settings }, deepWork)).toBe(true);
+  });
+
+  it('tells when a setting has moved away from the profile', () => {
+    expect(matchesProfile({ ...DEFAULT_SETTINGS, workDuration: 30 }, classic)).toBe(false);
+    expect(matchesProfile({ ...DEFAULT_SETTINGS, soundEnabled: false }, classic)).toBe(false);
+  });
+});
+
+describe('isValidSettingsProfile', () => {
+  it('accepts the built-in profiles and rejects a mistyped setting', () => {
+    expect(BUILT_IN_PROFILES.every(isValidSettingsProfile)).toBe(true);
+    expect(isValidSettingsProfile({ id: 'x', name: 'X', settings: { ...BUILT_IN_PROFILES[0].settings, workDuration: '25' as unknown as number } })).toBe(false);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,79 @@
+import type { Settings } from './constants.js';
+
+// The part of the settings a profile switches; everything else stays put
+export const PROFILE_SETTING_KEYS = [
+  'workDuration',
+  'shortBreak',
+  'longBreak',
+  'sessionsUntilLongBreak',
+  'autoStartBreaks',
+  'autoStartWork',
+  'autoStartBreaksDelay',
+  'autoStartWorkDelay',
+  'autoStartLimit',
+  'soundEnabled'
+] as const;
+
+export type ProfileSettings = Pick<Settings, typeof PROFILE_SETTING_KEYS[number]>;
+
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  settings: ProfileSettings;
+  builtIn?: boolean;
+}
+
+export const CLASSIC_PROFILE_ID = 'classic';
+
+// Settings that have been changed away from every saved profile
+export const CUSTOM_PROFILE_ID = 'custom';
+
+export function matchesProfile(settings: Settings, profile: SettingsProfile): boolean {
+  return PROFILE_SETTING_KEYS.every(key => settings[key] === profile.settings[key]);
+}
+
+const PRESET_DEFAULTS: Omit<ProfileSettings, 'workDuration' | 'shortBreak' | 'longBreak' | 'sessionsUntilLongBreak'> = {
+  autoStartBreaks: false,
+  autoStartWork: false,
+  autoStartBreaksDelay: 10,
+  autoStartWorkDelay: 10,
+  autoStartLimit: 0,
+  soundEnabled: true
+};
+
+export const BUILT_IN_PROFILES: SettingsProfile[] = [
+  {
+    id: CLASSIC_PROFILE_ID,
+    name: 'Classic 25/5',
+    builtIn: true,
+    settings: { ...PRESET_DEFAULTS, workDuration: 25, shortBreak: 5, longBreak: 15, sessionsUntilLongBreak: 4 }
+  },
+  {
+    id: 'deep-work',
+    name: 'Deep work 50/10',
+    builtIn: true,
+    settings: { ...PRESET_DEFAULTS, workDuration: 50, shortBreak: 10, longBreak: 30, sessionsUntilLongBreak: 3 }
+  },
+  {
+    id: 'study',
+    name: 'Study 45/15',
+    builtIn: true,
+    settings: { ...PRESET_DEFAULTS, workDuration: 45, shortBreak: 15, longBreak: 30, sessionsUntilLongBreak: 3 }
+  }
+];
+
+export function pickProfileSettings(settings: Settings): ProfileSettings {
+  const picked = {} as Record<string, unknown>;
+  PROFILE_SETTING_KEYS.forEach(key => {
+    picked[key] = settings[key];
+  });
+  return picked as ProfileSettings;
+}
+
+export function isValidSettingsProfile(profile: SettingsProfile): boolean {
+  return typeof profile?.id === 'string' &&
+    typeof profile.name === 'string' &&
+    typeof profile.settings === 'object' &&
+    profile.settings !== null &&
+    PROFILE_SETTING_KEYS.every(key => typeof profile.settings[key] === (typeof BUILT_IN_PROFILES[0].settings[key]));
+}
\ No newline at end of file
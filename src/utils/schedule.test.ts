@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatFocusSchedule,
+  getActiveFocusWindow,
+  getNextFocusWindow,
+  isValidFocusBlock,
+  parseDays,
+  parseFocusSchedule
+} from './schedule.js';
+
+// Local times, as the schedule is; 2024-01-15 is a Monday
+const at = (day: number, hours: number, minutes = 0) => new Date(2024, 0, day, hours, minutes).getTime();
+
+describe('parseFocusSchedule', () => {
+  it('reads days and a time range per line', () => {
+    expect(parseFocusSchedule('weekdays 09:00-11:00\n\nmon,wed 14:30 - 16:00')).toEqual([
+      { days: [1, 2, 3, 4, 5], start: 540, end: 660 },
+      { days: [1, 3], start: 870, end: 960 }
+    ]);
+  });
+
+  it('reads day ranges, including ones that wrap round the week', () => {
+    expect(parseFocusSchedule('tue-thu 08:00-09:00')?.[0].days).toEqual([2, 3, 4]);
+    expect(parseFocusSchedule('Sat-Mon 10:00-12:00')?.[0].days).toEqual([0, 1, 6]);
+    expect(parseFocusSchedule('friday 10:00-12:00')?.[0].days).toEqual([5]);
+  });
+
+  it('allows a block to run up to midnight', () => {
+    expect(parseFocusSchedule('daily 22:00-24:00')).toEqual([{ days: [0, 1, 2, 3, 4, 5, 6], start: 1320, end: 1440 }]);
+  });
+
+  it.each([
+    ['an unknown day', 'someday 09:00-10:00'],
+    ['a missing time', 'mon 09:00'],
+    ['an end before the start', 'mon 11:00-09:00'],
+    ['an empty block', 'mon 09:00-09:00'],
+    ['an impossible time', 'mon 09:00-24:30'],
+    ['minutes past the hour', 'mon 09:60-10:00']
+  ])('rejects %s', (_, text) => {
+    expect(parseFocusSchedule(text)).toBeNull();
+  });
+
+  it('reads back what it formats', () => {
+    const text = 'weekdays 09:00-11:00\nweekends 10:00-12:00\nmon,thu 14:00-16:00';
+    expect(formatFocusSchedule(parseFocusSchedule(text)!)).toBe(text);
+  });
+});
+
+describe('parseDays', () => {
+  it('hands out a fresh list for a day group each time', () => {
+    const weekdays = parseDays('weekdays')!;
+    weekdays.push(0);
+
+    expect(parseDays('weekdays')).toEqual([1, 2, 3, 4, 5]);
+    expect(parseFocusSchedule('weekdays 09:00-10:00')?.[0].days).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe('isValidFocusBlock', () => {
+  it('rejects days out of range and backwards blocks', () => {
+    expect(isValidFocusBlock({ days: [1], start: 540, end: 600 })).toBe(true);
+    expect(isValidFocusBlock({ days: [7], start: 540, end: 600 })).toBe(false);
+    expect(isValidFocusBlock({ days: [], start: 540, end: 600 })).toBe(false);
+    expect(isValidFocusBlock({ days: [1], start: 600, end: 540 })).toBe(false);
+  });
+});
+
+describe('focus windows', () => {
+  const blocks = parseFocusSchedule('weekdays 09:00-11:00\nwed 14:00-15:00')!;
+
+  it('finds the window under way, if any', () => {
+    expect(getActiveFocusWindow(blocks, at(15, 10))).toEqual({ startsAt: at(15, 9), endsAt: at(15, 11) });
+    expect(getActiveFocusWindow(blocks, at(15, 11))).toBeNull();
+    expect(getActiveFocusWindow(blocks, at(20, 10))).toBeNull();
+  });
+
+  it('finds the next window to start, later today or on a later day', () => {
+    expect(getNextFocusWindow(blocks, at(17, 12))).toEqual({ startsAt: at(17, 14), endsAt: at(17, 15) });
+    expect(getNextFocusWindow(blocks, at(19, 12))).toEqual({ startsAt: at(22, 9), endsAt: at(22, 11) });
+    expect(getNextFocusWindow([], at(19, 12))).toBeNull();
+  });
+});
\ No newline at end of file
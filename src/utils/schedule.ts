@@ -0,0 +1,144 @@
+// A recurring focus window, e.g. weekdays 09:00-11:00
+export interface FocusBlock {
+  days: number[];  // 0 = Sunday, as Date.getDay()
+  start: number;   // minutes after midnight
+  end: number;
+}
+
+// One occurrence of a block on a particular day
+export interface FocusWindow {
+  startsAt: number; // epoch ms
+  endsAt: number;
+}
+
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const DAY_GROUPS: Record<string, number[]> = {
+  daily: [0, 1, 2, 3, 4, 5, 6],
+  weekdays: [1, 2, 3, 4, 5],
+  weekends: [0, 6]
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Parse editor text such as "mon-fri 09:00-11:00" (one block per line) into
+ * blocks. Days may be a name, a range, a comma list or daily/weekdays/
+ * weekends. Returns null if any line is not understood.
+ */
+export function parseFocusSchedule(text: string): FocusBlock[] | null {
+  const lines = text.split('\n').map(line => line.trim()).filter(line => line !== '');
+  const blocks: FocusBlock[] = [];
+
+  for (const line of lines) {
+    const match = line.match(/^(\S+)\s+(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/);
+    if (!match) return null;
+
+    const days = parseDays(match[1].toLowerCase());
+    const start = parseClockTime(match[2]);
+    const end = parseClockTime(match[3]);
+    if (!days || start === null || end === null || end <= start) return null;
+
+    blocks.push({ days, start, end });
+  }
+
+  return blocks;
+}
+
+export function formatFocusSchedule(blocks: FocusBlock[]): string {
+  return blocks.map(block => `${formatDays(block.days)} ${formatClockTime(block.start)}-${formatClockTime(block.end)}`).join('\n');
+}
+
+export function isValidFocusBlock(block: FocusBlock): boolean {
+  return Array.isArray(block?.days) &&
+    block.days.length > 0 &&
+    block.days.every(day => Number.isInteger(day) && day >= 0 && day <= 6) &&
+    Number.isInteger(block.start) &&
+    Number.isInteger(block.end) &&
+    block.start >= 0 &&
+    block.end <= MINUTES_PER_DAY &&
+    block.end > block.start;
+}
+
+// The window `now` falls in, if any
+export function getActiveFocusWindow(blocks: FocusBlock[], now: number): FocusWindow | null {
+  const today = getWindowsOn(blocks, now);
+  return today.find(window => window.startsAt <= now && now < window.endsAt) ?? null;
+}
+
+// The next window to start after `now`, looking up to a week ahead
+export function getNextFocusWindow(blocks: FocusBlock[], now: number): FocusWindow | null {
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = new Date(now);
+    day.setDate(day.getDate() + offset);
+
+    const upcoming = getWindowsOn(blocks, day.getTime())
+      .filter(window => window.startsAt > now)
+      .sort((a, b) => a.startsAt - b.startsAt);
+    if (upcoming.length > 0) return upcoming[0];
+  }
+  return null;
+}
+
+export function formatFocusWindow({ startsAt, endsAt }: FocusWindow, now: number): string {
+  const start = new Date(startsAt);
+  const sameDay = start.toDateString() === new Date(now).toDateString();
+  const day = sameDay ? 'Today' : start.toLocaleDateString([], { weekday: 'short' });
+  const time = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return `${day} ${time(startsAt)}–${time(endsAt)}`;
+}
+
+function getWindowsOn(blocks: FocusBlock[], timestamp: number): FocusWindow[] {
+  const date = new Date(timestamp);
+  const weekday = date.getDay();
+
+  return blocks
+    .filter(block => block.days.includes(weekday))
+    .map(block => ({
+      startsAt: atMinutes(date, block.start),
+      endsAt: atMinutes(date, block.end)
+    }));
+}
+
+// Local wall-clock time on the given day, so DST changes keep 09:00 at 09:00
+function atMinutes(date: Date, minutes: number): number {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), Math.floor(minutes / 60), minutes % 60).getTime();
+}
+
+// Day names, ranges or groups as in the schedule editor, e.g. "weekends" or "mon,wed-fri"
+export function parseDays(text: string): number[] | null {
+  if (DAY_GROUPS[text]) return [...DAY_GROUPS[text]];
+
+  const days = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [from, to] = part.split('-').map(name => DAY_NAMES.indexOf(name.slice(0, 3)));
+    if (from === undefined || from < 0 || (to !== undefined && to < 0)) return null;
+
+    // Ranges may wrap round the week, e.g. sat-sun
+    let day = from;
+    days.add(day);
+    while (to !== undefined && day !== to) {
+      day = (day + 1) % 7;
+      days.add(day);
+    }
+  }
+
+  return [...days].sort((a, b) => a - b);
+}
+
+export function formatDays(days: number[]): string {
+  const key = [...days].sort((a, b) => a - b).join(',');
+  const group = Object.keys(DAY_GROUPS).find(name => DAY_GROUPS[name].join(',') === key);
+  return group ?? days.map(day => DAY_NAMES[day]).join(',');
+}
+
+function parseClockTime(text: string): number | null {
+  const [hours, minutes] = text.split(':').map(part => parseInt(part));
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) return null;
+  return hours * 60 + minutes;
+}
+
+function formatClockTime(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { SESSION_OUTCOMES, SESSION_TYPES } from './constants.js';
+import { sessionsToCsv, sessionsToIcs } from './sessionExport.js';
+import type { SessionRecord } from './storage.js';
+
+const record: SessionRecord = {
+  id: 'session_1',
+  date: '2024-01-15',
+  sessionType: SESSION_TYPES.WORK,
+  duration: 25,
+  completed: true,
+  startTime: new Date(2024, 0, 15, 9, 0).toISOString(),
+  endTime: new Date(2024, 0, 15, 9, 30).toISOString(),
+  outcome: SESSION_OUTCOMES.COMPLETED,
+  focusedSeconds: 27.5 * 60,
+  todoId: 'todo_1',
+  task: 'Write the "Q1" report, then review',
+  tags: ['writing', 'q1']
+};
+
+const recovered: SessionRecord = {
+  id: 'recovered_2024-01-14_0',
+  date: '2024-01-14',
+  sessionType: SESSION_TYPES.WORK,
+  duration: 25,
+  completed: true,
+  startTime: '2024-01-14T12:00:00.000Z',
+  outcome: SESSION_OUTCOMES.COMPLETED,
+  recovered: true
+};
+
+// Undo RFC 5545 line folding
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+describe('sessionsToCsv', () => {
+  it('writes a header and one CRLF-terminated row per session', () => {
+    const lines = sessionsToCsv([record]).split('\r\n');
+
+    expect(lines).toEqual([
+      'Date,Start,End,Type,Duration (minutes),Outcome,Task,Tags',
+      '2024-01-15,2024-01-15 09:00,2024-01-15 09:30,Work,27.5,completed,"Write the ""Q1"" report, then review",#writing #q1',
+      ''
+    ]);
+  });
+
+  it('leaves the times of recovered sessions empty', () => {
+    expect(sessionsToCsv([recovered]).split('\r\n')[1]).toBe('2024-01-14,,,Work,25,completed,,');
+  });
+
+  it('quotes fields with line breaks', () => {
+    const row = sessionsToCsv([{ ...record, task: 'one\ntwo', tags: [] }]).split('\r\n').slice(1).join('\r\n');
+    expect(row).toContain(',"one\ntwo",');
+  });
+});
+
+describe('sessionsToIcs', () => {
+  const now = new Date(Date.UTC(2024, 0, 20, 8, 0, 0));
+
+  it('writes one event per session, with a UID that stays the same across exports', () => {
+    const ics = unfold(sessionsToIcs([record], now));
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics).toContain('UID:session_1@fokus\r\n');
+    expect(ics).toContain('DTSTAMP:20240120T080000Z\r\n');
+    expect(ics).toContain(`DTSTART:${new Date(record.startTime).toISOString().replace(/[-:]/g, '').replace('.000', '')}\r\n`);
+    expect(ics).toContain('CATEGORIES:writing,q1\r\n');
+  });
+
+  it('escapes text values', () => {
+    const ics = unfold(sessionsToIcs([{ ...record, task: 'a, b; c\\d\ne' }], now));
+    expect(ics).toContain(String.raw`SUMMARY:Work session: a\, b\; c\\d\ne` + '\r\n');
+  });
+
+  it('folds lines longer than 75 octets without splitting a character', () => {
+    const ics = sessionsToIcs([{ ...record, task: 'Überprüfung ✍️ '.repeat(10) }], now);
+    const encoder = new TextEncoder();
+
+    ics.split('\r\n').forEach(line => {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('�');
+    });
+    expect(unfold(ics)).toContain(`SUMMARY:Work session: ${'Überprüfung ✍️ '.repeat(10)}\r\n`);
+  });
+
+  it('leaves out recovered sessions, which have no real times', () => {
+    expect(sessionsToIcs([recovered], now)).not.toContain('BEGIN:VEVENT');
+  });
+});
\ No newline at end of file
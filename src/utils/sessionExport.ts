@@ -0,0 +1,121 @@
+import { SESSION_TYPE_LABELS, type SessionType } from './constants.js';
+import { sessionMinutes, sessionOutcome } from './sessionLog.js';
+import type { SessionRecord } from './storage.js';
+
+const CSV_COLUMNS = ['Date', 'Start', 'End', 'Type', 'Duration (minutes)', 'Outcome', 'Task', 'Tags'];
+
+// iCalendar lines longer than this many octets are folded
+const ICS_LINE_LENGTH = 75;
+
+/**
+ * Sessions as CSV for timesheets, one row per session. Times are local
+ * wall-clock times; recovered sessions only know their day, so their times
+ * are left empty. Lines end in CRLF, as RFC 4180 has them.
+ */
+export function sessionsToCsv(records: SessionRecord[]): string {
+  const rows = records.map(record => [
+    record.date,
+    record.recovered ? '' : formatLocalTime(new Date(record.startTime)),
+    record.recovered ? '' : formatLocalTime(sessionEnd(record)),
+    typeLabel(record),
+    String(Math.round(sessionMinutes(record) * 10) / 10),
+    sessionOutcome(record),
+    record.task ?? '',
+    (record.tags ?? []).map(tag => `#${tag}`).join(' ')
+  ]);
+
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Sessions as an iCalendar file, one event per session, to overlay on a
+ * calendar. Recovered sessions are left out, as they have no real times.
+ * Event UIDs come from the session ids, so importing the file again updates
+ * the same events rather than adding copies.
+ */
+export function sessionsToIcs(records: SessionRecord[], now: Date = new Date()): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Fokus//Session Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Fokus sessions'
+  ];
+
+  records.filter(record => !record.recovered).forEach(record => {
+    const details = [
+      `${Math.round(sessionMinutes(record))} min`,
+      sessionOutcome(record)
+    ];
+    if (record.interruptions?.length) {
+      details.push(`${record.interruptions.length} interruption${record.interruptions.length === 1 ? '' : 's'}`);
+    }
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${record.id}@fokus`,
+      `DTSTAMP:${formatUtcTime(now)}`,
+      `DTSTART:${formatUtcTime(new Date(record.startTime))}`,
+      `DTEND:${formatUtcTime(sessionEnd(record))}`,
+      `SUMMARY:${icsText(`${typeLabel(record)} session${record.task ? `: ${record.task}` : ''}`)}`,
+      `DESCRIPTION:${icsText(details.join(', '))}`,
+      'TRANSP:TRANSPARENT'
+    );
+    if (record.tags?.length) {
+      lines.push(`CATEGORIES:${record.tags.map(icsText).join(',')}`);
+    }
+    lines.push('END:VEVENT');
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// Records from before end times were kept ran for their recorded length
+function sessionEnd(record: SessionRecord): Date {
+  if (record.endTime) return new Date(record.endTime);
+  return new Date(new Date(record.startTime).getTime() + Math.round(sessionMinutes(record) * 60000));
+}
+
+function typeLabel(record: SessionRecord): string {
+  return SESSION_TYPE_LABELS[record.sessionType as SessionType] ?? record.sessionType;
+}
+
+// 'YYYY-MM-DD HH:MM' in local time, which spreadsheets read as a date and time
+function formatLocalTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatUtcTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function icsText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Continuation lines start with a space, which counts towards their length.
+// Walks code points so a character is never split across lines.
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+
+  for (const character of line) {
+    const limit = parts.length === 0 ? ICS_LINE_LENGTH : ICS_LINE_LENGTH - 1;
+    if (encoder.encode(current + character).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += character;
+  }
+
+  parts.push(current);
+  return parts.join('\r\n ');
+}
\ No newline at end of file
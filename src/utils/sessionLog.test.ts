@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { SESSION_OUTCOMES, SESSION_TYPES, type SessionOutcome } from './constants.js';
+import { buildDailyStatistics, currentStreak, sessionMinutes, sessionOutcome } from './sessionLog.js';
+import type { SessionRecord } from './storage.js';
+
+let nextId = 0;
+
+function session(date: string, outcome: SessionOutcome = SESSION_OUTCOMES.COMPLETED, extra: Partial<SessionRecord> = {}): SessionRecord {
+  return {
+    id: `session_${nextId++}`,
+    date,
+    sessionType: SESSION_TYPES.WORK,
+    duration: 25,
+    completed: outcome === SESSION_OUTCOMES.COMPLETED,
+    startTime: `${date}T09:00:00.000Z`,
+    outcome,
+    ...extra
+  };
+}
+
+// One completed session on each date
+const workedOn = (...dates: string[]) => dates.map(date => session(date));
+
+describe('buildDailyStatistics', () => {
+  it('totals each day by outcome', () => {
+    const days = buildDailyStatistics([
+      session('2024-01-15', SESSION_OUTCOMES.COMPLETED, { focusedSeconds: 30 * 60, interruptions: [{ type: 'internal', timestamp: '2024-01-15T09:10:00.000Z' }] }),
+      session('2024-01-15', SESSION_OUTCOMES.SKIPPED),
+      session('2024-01-15', SESSION_OUTCOMES.ABANDONED),
+      session('2024-01-15', SESSION_OUTCOMES.COMPLETED, { sessionType: SESSION_TYPES.SHORT_BREAK, duration: 5 })
+    ]);
+
+    expect(days['2024-01-15']).toMatchObject({
+      sessionsCompleted: 1,
+      focusTimeMinutes: 30,
+      breakTimeMinutes: 5,
+      sessionsSkipped: 1,
+      sessionsAbandoned: 1,
+      interruptions: 1,
+      streak: 1
+    });
+  });
+
+  it('reads records from before outcomes and focused time were kept', () => {
+    const legacy = { ...session('2024-01-15'), outcome: undefined, completed: false };
+    expect(sessionOutcome(legacy)).toBe(SESSION_OUTCOMES.SKIPPED);
+    expect(sessionMinutes(legacy)).toBe(25);
+  });
+});
+
+describe('streaks', () => {
+  const streaks = (records: SessionRecord[], rules = { restDays: [] as number[], freezesPerMonth: 0 }) =>
+    Object.fromEntries(Object.values(buildDailyStatistics(records, rules)).map(day => [day.date, day.streak]));
+
+  it('runs over consecutive days of completed work and ends on a missed one', () => {
+    expect(streaks(workedOn('2024-01-15', '2024-01-16', '2024-01-18'))).toEqual({
+      '2024-01-15': 1,
+      '2024-01-16': 2,
+      '2024-01-18': 1
+    });
+  });
+
+  it('does not count a day with only skipped sessions', () => {
+    const records = [...workedOn('2024-01-15'), session('2024-01-16', SESSION_OUTCOMES.SKIPPED), ...workedOn('2024-01-17')];
+    expect(streaks(records)['2024-01-17']).toBe(1);
+  });
+
+  it('carries a run over rest days without adding to it', () => {
+    // Friday, then Monday, with the weekend off
+    const records = workedOn('2024-01-19', '2024-01-22');
+    expect(streaks(records, { restDays: [0, 6], freezesPerMonth: 0 })['2024-01-22']).toBe(2);
+  });
+
+  it('spends freezes on missed days, as many as each month allows', () => {
+    const records = workedOn('2024-01-15', '2024-01-17', '2024-01-19');
+    expect(streaks(records, { restDays: [], freezesPerMonth: 1 })).toMatchObject({ '2024-01-17': 2, '2024-01-19': 1 });
+
+    // A new month brings new freezes
+    const acrossMonths = workedOn('2024-01-30', '2024-02-01', '2024-02-03');
+    expect(streaks(acrossMonths, { restDays: [], freezesPerMonth: 1 })['2024-02-03']).toBe(3);
+  });
+
+  it("doesn't let today break the current streak before it is over", () => {
+    const days = buildDailyStatistics(workedOn('2024-01-15', '2024-01-16'));
+    expect(currentStreak(days, '2024-01-17', { restDays: [], freezesPerMonth: 0 })).toBe(2);
+    expect(currentStreak(days, '2024-01-18', { restDays: [], freezesPerMonth: 0 })).toBe(0);
+  });
+});
\ No newline at end of file
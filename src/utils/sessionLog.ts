@@ -0,0 +1,244 @@
+import { SESSION_OUTCOMES, SESSION_TYPES, type SessionOutcome } from './constants.js';
+import { addDays, toDateKey, weekdayOf } from './dates.js';
+import type { DailyStatistics, SessionRecord } from './storage.js';
+
+// The per-day totals older builds kept instead of (or mixed in with) session records
+interface LegacyDailyStats {
+  date: string;
+  sessionsCompleted: number;
+  focusTimeMinutes: number;
+  sessionsSkipped?: number;
+  sessionsAbandoned?: number;
+}
+
+export function isValidSessionRecord(record: SessionRecord): boolean {
+  return typeof record?.id === 'string' &&
+    typeof record.date === 'string' &&
+    typeof record.sessionType === 'string' &&
+    typeof record.duration === 'number' &&
+    typeof record.completed === 'boolean' &&
+    typeof record.startTime === 'string';
+}
+
+/**
+ * Turn whatever older builds left behind into session records. History was
+ * written in two formats under the same key, so an array may hold session
+ * records, daily totals or both. Records are kept as they are (once per id);
+ * where a day's totals count more than its records, the difference becomes
+ * `recovered` records so nothing that was counted is lost.
+ */
+export function recoverSessionRecords(entries: unknown[], existing: SessionRecord[] = []): SessionRecord[] {
+  const records = new Map(existing.map(record => [record.id, record]));
+  const totals = new Map<string, LegacyDailyStats>();
+
+  entries.forEach(entry => {
+    const record = entry as SessionRecord;
+    if (isValidSessionRecord(record)) {
+      if (!records.has(record.id)) {
+        records.set(record.id, record);
+      }
+      return;
+    }
+
+    // Totals for the same day can appear more than once; each copy only ever grew
+    const stats = entry as LegacyDailyStats;
+    if (typeof stats?.date !== 'string' || typeof stats.sessionsCompleted !== 'number') return;
+
+    const seen = totals.get(stats.date);
+    totals.set(stats.date, seen ? {
+      date: stats.date,
+      sessionsCompleted: Math.max(seen.sessionsCompleted, stats.sessionsCompleted),
+      focusTimeMinutes: Math.max(seen.focusTimeMinutes, stats.focusTimeMinutes ?? 0),
+      sessionsSkipped: Math.max(seen.sessionsSkipped ?? 0, stats.sessionsSkipped ?? 0),
+      sessionsAbandoned: Math.max(seen.sessionsAbandoned ?? 0, stats.sessionsAbandoned ?? 0)
+    } : stats);
+  });
+
+  const recovered = [...totals.values()].flatMap(stats => recoverDay(stats, [...records.values()]));
+  return sortSessionRecords([...records.values(), ...recovered]);
+}
+
+export function sortSessionRecords(records: SessionRecord[]): SessionRecord[] {
+  return [...records].sort((a, b) => a.startTime.localeCompare(b.startTime));
+}
+
+// Each record on the day it ended under `dayStartHour`; records already there
+// are returned as they are. Recovered records have no real time, so keep their day.
+export function bucketSessionRecords(records: SessionRecord[], dayStartHour: number): SessionRecord[] {
+  return records.map(record => {
+    if (record.recovered) return record;
+
+    const date = toDateKey(new Date(record.endTime ?? record.startTime), dayStartHour);
+    return date === record.date ? record : { ...record, date };
+  });
+}
+
+// What a streak can pass over without breaking
+export interface StreakRules {
+  restDays: number[];       // weekdays (0 = Sunday) that neither add to a streak nor break it
+  freezesPerMonth: number;  // other days without work a streak survives, per calendar month
+}
+
+export const NO_STREAK_RULES: StreakRules = { restDays: [], freezesPerMonth: 0 };
+
+// Daily totals for every day in the log, keyed by date, with their streaks
+export function buildDailyStatistics(records: SessionRecord[], rules: StreakRules = NO_STREAK_RULES): Record<string, DailyStatistics> {
+  const days: Record<string, DailyStatistics> = {};
+
+  records.forEach(record => {
+    const day = days[record.date] ??= emptyDay(record.date);
+    addToDay(day, record);
+  });
+
+  applyStreaks(days, rules);
+  return days;
+}
+
+// Totals for one day; its streak depends on the days before, see applyStreaks
+export function buildDayStatistics(date: string, records: SessionRecord[]): DailyStatistics {
+  const day = emptyDay(date);
+  records.filter(record => record.date === date).forEach(record => addToDay(day, record));
+  return day;
+}
+
+/**
+ * Set each day's streak: how many days with completed work the run reaching
+ * it has. Rest days and frozen days carry a run over without adding to it;
+ * any other day without work ends it.
+ */
+export function applyStreaks(days: Record<string, DailyStatistics>, rules: StreakRules): void {
+  const dates = Object.keys(days).sort();
+  if (dates.length === 0) return;
+
+  walkStreak(days, dates[dates.length - 1], rules, null, (date, streak) => {
+    if (days[date]) {
+      days[date].streak = streak;
+    }
+  });
+}
+
+// The streak as it stands on `today`, which can't break it as it isn't over yet
+export function currentStreak(days: Record<string, DailyStatistics>, today: string, rules: StreakRules): number {
+  return walkStreak(days, today, rules, today);
+}
+
+export function emptyDay(date: string): DailyStatistics {
+  return {
+    date,
+    sessionsCompleted: 0,
+    focusTimeMinutes: 0,
+    breakTimeMinutes: 0,
+    sessionsSkipped: 0,
+    sessionsAbandoned: 0,
+    interruptions: 0,
+    streak: 0
+  };
+}
+
+// Records written before outcomes existed only say whether they completed
+export function sessionOutcome(record: SessionRecord): SessionOutcome {
+  return record.outcome ?? (record.completed ? SESSION_OUTCOMES.COMPLETED : SESSION_OUTCOMES.SKIPPED);
+}
+
+// Time actually spent, which for flowtime and extended sessions isn't the planned duration
+export function sessionMinutes(record: SessionRecord): number {
+  return record.focusedSeconds !== undefined ? record.focusedSeconds / 60 : record.duration;
+}
+
+function addToDay(day: DailyStatistics, record: SessionRecord): void {
+  const outcome = sessionOutcome(record);
+  const minutes = sessionMinutes(record);
+
+  day.interruptions += record.interruptions?.length ?? 0;
+
+  if (record.sessionType !== SESSION_TYPES.WORK) {
+    if (record.completed) {
+      day.breakTimeMinutes += Math.round(minutes);
+    }
+    return;
+  }
+
+  if (outcome === SESSION_OUTCOMES.COMPLETED) {
+    day.sessionsCompleted++;
+    day.focusTimeMinutes += Math.round(minutes);
+  } else if (outcome === SESSION_OUTCOMES.ABANDONED) {
+    day.sessionsAbandoned++;
+  } else {
+    day.sessionsSkipped++;
+  }
+}
+
+// Go day by day from the first in `days` to `until`, passing each day's streak
+// to `visit`. Freezes are spent automatically, as many as each month allows.
+function walkStreak(
+  days: Record<string, DailyStatistics>,
+  until: string,
+  rules: StreakRules,
+  openDay: string | null,
+  visit?: (date: string, streak: number) => void
+): number {
+  const first = Object.keys(days).sort()[0];
+  if (first === undefined || first > until) return 0;
+
+  let streak = 0;
+  let month = '';
+  let freezesLeft = 0;
+
+  for (let date = first; date <= until; date = addDays(date, 1)) {
+    if (date.slice(0, 7) !== month) {
+      month = date.slice(0, 7);
+      freezesLeft = rules.freezesPerMonth;
+    }
+
+    if ((days[date]?.sessionsCompleted ?? 0) > 0) {
+      streak++;
+    } else if (streak === 0 || date === openDay || rules.restDays.includes(weekdayOf(date))) {
+      // Nothing to break, or a day that doesn't count
+    } else if (freezesLeft > 0) {
+      freezesLeft--;
+    } else {
+      streak = 0;
+    }
+
+    visit?.(date, streak);
+  }
+
+  return streak;
+}
+
+// Records standing in for sessions a day's totals counted but no record describes
+function recoverDay(stats: LegacyDailyStats, records: SessionRecord[]): SessionRecord[] {
+  const day = buildDayStatistics(stats.date, records);
+  const missing = Math.max(0, stats.sessionsCompleted - day.sessionsCompleted);
+  const missingMinutes = Math.max(0, (stats.focusTimeMinutes ?? 0) - day.focusTimeMinutes);
+  const startTime = `${stats.date}T12:00:00.000Z`;
+  const counted = day.sessionsCompleted + day.sessionsSkipped + day.sessionsAbandoned;
+
+  const recovered: SessionRecord[] = [];
+  const add = (outcome: SessionRecord['outcome'], duration: number) => {
+    recovered.push({
+      id: `recovered_${stats.date}_${counted + recovered.length}`,
+      date: stats.date,
+      sessionType: SESSION_TYPES.WORK,
+      duration,
+      completed: outcome === SESSION_OUTCOMES.COMPLETED,
+      startTime,
+      outcome,
+      recovered: true
+    });
+  };
+
+  // Spread the unaccounted minutes over the missing sessions
+  for (let i = 0; i < missing; i++) {
+    const share = Math.floor(missingMinutes / missing) + (i < missingMinutes % missing ? 1 : 0);
+    add(SESSION_OUTCOMES.COMPLETED, share);
+  }
+  for (let i = day.sessionsSkipped; i < (stats.sessionsSkipped ?? 0); i++) {
+    add(SESSION_OUTCOMES.SKIPPED, 0);
+  }
+  for (let i = day.sessionsAbandoned; i < (stats.sessionsAbandoned ?? 0); i++) {
+    add(SESSION_OUTCOMES.ABANDONED, 0);
+  }
+
+  return recovered;
+}
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { DEFAULT_SETTINGS, type Settings } from './constants.js';
+
+// Bump when the stored shape changes, and add a migration from the old version
+export const SETTINGS_VERSION = 2;
+
+// What StorageManager writes under fokus_settings
+export interface StoredSettings {
+  version: number;
+  settings: Settings;
+}
+
+export interface SettingsIssue {
+  field: keyof Settings | 'settings';
+  value: unknown;
+  message: string;
+}
+
+export interface SettingsValidation {
+  settings: Settings;
+  issues: SettingsIssue[];
+}
+
+type FieldRule =
+  | { type: 'number'; label: string; min: number; max: number; integer: boolean }
+  | { type: 'boolean'; label: string }
+  | { type: 'string'; label: string; maxLength: number }
+  | { type: 'weekdays'; label: string };
+
+const minutes = (label: string, min: number, max: number): FieldRule =>
+  ({ type: 'number', label, min, max, integer: true });
+const flag = (label: string): FieldRule => ({ type: 'boolean', label });
+const id = (label: string): FieldRule => ({ type: 'string', label, maxLength: 100 });
+
+// Ranges match the inputs in the settings panel
+export const SETTINGS_SCHEMA: Record<keyof Settings, FieldRule> = {
+  workDuration: minutes('Work duration', 1, 60),
+  shortBreak: minutes('Short break', 1, 30),
+  longBreak: minutes('Long break', 1, 60),
+  sessionsUntilLongBreak: minutes('Pomodoros before long break', 1, 12),
+  autoStartBreaks: flag('Auto-start breaks'),
+  autoStartWork: flag('Auto-start work sessions'),
+  autoStartBreaksDelay: minutes('Break countdown', 0, 120),
+  autoStartWorkDelay: minutes('Work countdown', 0, 120),
+  autoStartLimit: minutes('Auto-start limit', 0, 20),
+  cycleResetIdleMinutes: minutes('Restart cycle after idle', 0, 480),
+  cycleResetDaily: flag('Restart cycle each new day'),
+  soundEnabled: flag('Sound notifications'),
+  profileId: id('Profile'),
+  cycleTemplateId: id('Session cycle'),
+  flowtimeEnabled: flag('Flowtime'),
+  flowtimeBreakRatio: { type: 'number', label: 'Flowtime break', min: 0.05, max: 0.5, integer: false },
+  interruptionVoidsPomodoro: flag('Interruptions void the pomodoro'),
+  extendMinutes: minutes('Extend session by', 1, 30),
+  snoozeMinutes: minutes('Snooze / postpone by', 1, 60),
+  dayStartHour: minutes('Day starts at', 0, 12),
+  streakRestDays: { type: 'weekdays', label: 'Streak rest days' },
+  streakFreezesPerMonth: minutes('Streak freezes per month', 0, 10)
+};
+
+type RawSettings = Record<string, unknown>;
+
+// Each entry upgrades stored settings from that version to the next one
+const MIGRATIONS: Record<number, (data: RawSettings) => RawSettings> = {
+  // Version 1 was the bare settings object with no version wrapper; the
+  // fields themselves carry over unchanged
+  1: data => data
+};
+
+/**
+ * Read whatever was stored under fokus_settings, in any version, into valid
+ * settings. Anything that had to be repaired comes back as an issue so it can
+ * be shown rather than silently dropped.
+ */
+export function parseStoredSettings(stored: unknown): SettingsValidation {
+  if (!isObject(stored)) {
+    return {
+      settings: { ...DEFAULT_SETTINGS },
+      issues: [{ field: 'settings', value: stored, message: 'Saved settings were unreadable and have been reset to the defaults.' }]
+    };
+  }
+
+  const issues: SettingsIssue[] = [];
+  const versioned = typeof stored.version === 'number' && isObject(stored.settings);
+  let version = versioned ? stored.version as number : 1;
+  let data = versioned ? stored.settings as RawSettings : stored;
+
+  if (version > SETTINGS_VERSION) {
+    issues.push({
+      field: 'settings',
+      value: version,
+      message: 'Settings were saved by a newer version of Fokus; anything not understood here was reset.'
+    });
+  }
+
+  while (version < SETTINGS_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) {
+      data = migrate(data);
+    }
+    version++;
+  }
+
+  const result = validateSettings(data);
+  return { settings: result.settings, issues: [...issues, ...result.issues] };
+}
+
+/**
+ * Check every field against the schema. Missing fields take their default
+ * quietly (they are simply newer than the save); wrong types fall back to the
+ * default and out-of-range numbers are clamped, both reported.
+ */
+export function validateSettings(data: RawSettings): SettingsValidation {
+  const settings = { ...DEFAULT_SETTINGS };
+  const issues: SettingsIssue[] = [];
+  const target = settings as unknown as RawSettings;
+
+  (Object.keys(SETTINGS_SCHEMA) as (keyof Settings)[]).forEach(field => {
+    if (!(field in data)) return;
+
+    const rule = SETTINGS_SCHEMA[field];
+    const value = data[field];
+
+    if (rule.type === 'number') {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ field, value, message: `${rule.label} was not a number and has been reset to ${DEFAULT_SETTINGS[field]}.` });
+        return;
+      }
+      const rounded = rule.integer ? Math.round(value) : value;
+      const clamped = Math.min(rule.max, Math.max(rule.min, rounded));
+      if (clamped !== rounded) {
+        issues.push({ field, value, message: `${rule.label} of ${value} is outside ${rule.min}–${rule.max} and has been set to ${clamped}.` });
+      }
+      target[field] = clamped;
+    } else if (rule.type === 'boolean') {
+      if (typeof value !== 'boolean') {
+        issues.push({ field, value, message: `${rule.label} had an invalid value and has been reset.` });
+        return;
+      }
+      target[field] = value;
+    } else if (rule.type === 'weekdays') {
+      if (!Array.isArray(value) || !value.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+        issues.push({ field, value, message: `${rule.label} had an invalid value and has been reset.` });
+        return;
+      }
+      target[field] = [...new Set(value as number[])].sort((a, b) => a - b);
+    } else {
+      if (typeof value !== 'string' || value === '' || value.length > rule.maxLength) {
+        issues.push({ field, value, message: `${rule.label} had an invalid value and has been reset.` });
+        return;
+      }
+      target[field] = value;
+    }
+  });
+
+  return { settings, issues };
+}
+
+export function toStoredSettings(settings: Settings): StoredSettings {
+  return { version: SETTINGS_VERSION, settings };
+}
+
+function isObject(value: unknown): value is RawSettings {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
\ No newline at end of file
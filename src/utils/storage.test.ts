@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { SESSION_OUTCOMES, SESSION_TYPES, STORAGE_KEYS } from './constants.js';
+import { MemoryStorageAdapter } from './memoryAdapter.js';
+import type { SessionRecord, StorageManager } from './storage.js';
+
+// A session ending at a local time; its date as with days starting at midnight
+function session(id: string, day: number, hours: number, minutes = 0): SessionRecord {
+  const end = new Date(2024, 0, day, hours, minutes);
+  return {
+    id,
+    date: `2024-01-${String(end.getDate()).padStart(2, '0')}`,
+    sessionType: SESSION_TYPES.WORK,
+    duration: 25,
+    completed: true,
+    startTime: new Date(end.getTime() - 25 * 60 * 1000).toISOString(),
+    endTime: end.toISOString(),
+    outcome: SESSION_OUTCOMES.COMPLETED
+  };
+}
+
+describe('StorageManager', () => {
+  let adapter: MemoryStorageAdapter;
+  let storage: StorageManager;
+
+  // The manager is a singleton that connects once, so each test loads it afresh
+  beforeEach(async () => {
+    vi.resetModules();
+    adapter = new MemoryStorageAdapter();
+    storage = (await import('./storage.js')).StorageManager.getInstance();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Resolves once the manager has worked the log out again
+  const rebuilt = () => new Promise<void>(resolve => {
+    storage.addEventListener('change', () => resolve(), { once: true });
+  });
+
+  it('folds history from older builds into the session log', async () => {
+    await adapter.put('settings', 'fokus_session_history', [session('a', 15, 10)]);
+    await adapter.put('settings', 'fokus_statistics', { date: '2024-01-15', sessionsCompleted: 3, focusTimeMinutes: 75 });
+
+    await storage.init(adapter);
+
+    const log = await storage.loadSessionLog();
+    expect(log.every(record => record.date === '2024-01-15')).toBe(true);
+    expect(log.filter(record => record.recovered).length).toBe(2);
+    expect(storage.getDailyStatistics('2024-01-15').sessionsCompleted).toBe(3);
+    expect(await adapter.get('settings', 'fokus_session_history')).toBeUndefined();
+    expect(await adapter.get('settings', 'fokus_statistics')).toBeUndefined();
+  });
+
+  it('keeps the records it already has when migrating again', async () => {
+    await adapter.put('sessions', 'a', session('a', 15, 10));
+    await adapter.put('settings', 'fokus_session_history', [{ ...session('a', 15, 10), duration: 50 }, session('b', 16, 10)]);
+
+    await storage.init(adapter);
+
+    const log = await storage.loadSessionLog();
+    expect(log.map(record => [record.id, record.duration])).toEqual([['a', 25], ['b', 25]]);
+  });
+
+  it('moves sessions to other days when the day start changes', async () => {
+    await storage.init(adapter);
+    await storage.appendSessionRecord(session('late', 16, 2, 30));
+    await storage.appendSessionRecord(session('morning', 16, 9));
+    expect(storage.getDailyStatistics('2024-01-16').sessionsCompleted).toBe(2);
+
+    const done = rebuilt();
+    storage.saveSettings({ ...storage.loadSettings().settings, dayStartHour: 4 });
+    await done;
+
+    const log = await storage.loadSessionLog();
+    expect(log.map(record => [record.id, record.date])).toEqual([['late', '2024-01-15'], ['morning', '2024-01-16']]);
+    expect(storage.getDailyStatistics('2024-01-15').sessionsCompleted).toBe(1);
+    expect(storage.getDailyStatistics('2024-01-16').sessionsCompleted).toBe(1);
+    expect(await adapter.get('settings', STORAGE_KEYS.DAY_BOUNDARY)).toEqual({ dayStartHour: 4 });
+  });
+
+  it('leaves storage as it was when an import fails part way', async () => {
+    await storage.init(adapter);
+    await storage.appendSessionRecord(session('a', 15, 10));
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(adapter, 'transaction').mockImplementationOnce((stores, work) =>
+      MemoryStorageAdapter.prototype.transaction.call(adapter, stores, transaction => {
+        work(transaction);
+        throw new Error('Quota exceeded');
+      }));
+
+    const json = JSON.stringify({ version: 2, sessionHistory: [session('b', 16, 10)], settings: { workDuration: 50 } });
+    expect(await storage.importData(json, 'replace')).toBe(false);
+
+    expect((await storage.loadSessionLog()).map(record => record.id)).toEqual(['a']);
+    expect(storage.loadSettings().settings.workDuration).toBe(25);
+    expect(await adapter.get('settings', STORAGE_KEYS.SETTINGS)).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -1,4 +1,55 @@
-import { STORAGE_KEYS, type Settings } from './constants.js';
+import {
+  STORAGE_KEYS,
+  INTERRUPTION_TYPES,
+  type Settings,
+  type SessionType,
+  type SessionOutcome,
+  type TimerState,
+  type InterruptionType
+} from './constants.js';
+import { isValidCycleTemplate, type CycleTemplate } from './cycles.js';
+import { isValidFocusBlock, type FocusBlock } from './schedule.js';
+import { isValidGoal, isValidGoalResult, type Goal, type GoalResult } from './goals.js';
+import { isValidSettingsProfile, type SettingsProfile } from './profiles.js';
+import {
+  parseStoredSettings,
+  toStoredSettings,
+  validateSettings,
+  type SettingsValidation
+} from './settingsSchema.js';
+import {
+  applyStreaks,
+  bucketSessionRecords,
+  buildDailyStatistics,
+  buildDayStatistics,
+  currentStreak,
+  emptyDay,
+  isValidSessionRecord,
+  recoverSessionRecords,
+  sortSessionRecords,
+  type StreakRules
+} from './sessionLog.js';
+import { toDateKey } from './dates.js';
+import { EXPORT_VERSION, parseExport, planImport, type ImportMode, type ImportReport } from './importSchema.js';
+import { STORE_NAMES, type StorageAdapter, type StorageChange, type StorageQuery } from './storageAdapter.js';
+import { LocalStorageAdapter } from './localStorageAdapter.js';
+import { MemoryStorageAdapter } from './memoryAdapter.js';
+
+// Where older builds kept history, in one of two formats (or both mixed).
+// Anything found here is folded into the session log and the key removed.
+const LEGACY_HISTORY_KEYS = ['fokus_session_history', 'fokus_daily_stats', 'fokus_statistics'];
+
+// Entries the first IndexedDB build stored under other keys
+const RENAMED_ENTRIES: Record<string, string> = {
+  settings: STORAGE_KEYS.SETTINGS,
+  todosExpireAt: STORAGE_KEYS.TODOS_EXPIRE_AT
+};
+
+export interface Interruption {
+  type: InterruptionType;
+  timestamp: string;
+  note?: string;
+}
 
 export interface SessionRecord {
   id: string;
@@ -8,6 +59,49 @@ export interface SessionRecord {
   completed: boolean;
   startTime: string;
   endTime?: string;
+  flowtime?: boolean;
+  outcome?: SessionOutcome;   // missing on records written before outcomes existed
+  focusedSeconds?: number;
+  pausedSeconds?: number;
+  pauseCount?: number;
+  interruptions?: Interruption[];
+  extensionCount?: number;
+  extendedSeconds?: number;
+  profileId?: string;         // settings profile active when the session ran
+  todoId?: string;            // the todo worked on, for work sessions
+  task?: string;              // its text at the time
+  tags?: string[];            // its #hashtags
+  recovered?: boolean;        // rebuilt from old daily totals, so times are approximate
+}
+
+export interface TimerSnapshot {
+  sessionType: SessionType;
+  state: TimerState;
+  sessionsCompleted: number;
+  cycleId: string;
+  segmentIndex: number;
+  timeRemaining: number;
+  startedAt: number | null;
+  endsAt: number | null;
+  pausedAt: number | null;
+  pausedMs: number;
+  pauseCount?: number;
+  interruptions?: Interruption[];
+  extensionCount?: number;
+  extendedSeconds?: number;
+  scheduledStartAt?: number | null;
+  autoStartPending?: boolean;
+  unattendedSessions?: number;
+  lastSessionEndedAt?: number | null;
+  focusBlockEndsAt?: number | null;
+  openEnded?: boolean;
+  breakOverride?: number | null;
+  savedAt: number;
+}
+
+// The day boundary the session log was last bucketed with
+interface DayBoundary {
+  dayStartHour: number;
 }
 
 export interface DailyStatistics {
@@ -15,13 +109,29 @@ export interface DailyStatistics {
   sessionsCompleted: number;
   focusTimeMinutes: number;
   breakTimeMinutes: number;
+  sessionsSkipped: number;
+  sessionsAbandoned: number;
+  interruptions: number;
   streak: number;
 }
 
-export class StorageManager {
+/**
+ * The app's storage, on whichever adapter `init()` is given. Settings-store
+ * entries are read into memory at startup so components can read them
+ * synchronously; writes update memory at once and reach the adapter behind.
+ * Session records are only ever read through the adapter. Dispatches
+ * 'change' (a StorageChange) when another tab changes something, and when
+ * a settings change or an import here has days or streaks worked out again.
+ */
+export class StorageManager extends EventTarget {
   private static instance: StorageManager;
+  private adapter: StorageAdapter = new MemoryStorageAdapter();
+  private entries = new Map<string, unknown>();
+  private ready: Promise<void> | null = null;
 
-  private constructor() {}
+  private constructor() {
+    super();
+  }
 
   public static getInstance(): StorageManager {
     if (!StorageManager.instance) {
@@ -30,170 +140,475 @@ export class StorageManager {
     return StorageManager.instance;
   }
 
-  // Settings management
-  public saveSettings(settings: Settings): void {
-    try {
-      localStorage.setItem(STORAGE_KEYS.SETTINGS, JSON.stringify(settings));
-    } catch (error) {
-      console.warn('Failed to save settings:', error);
-    }
+  /**
+   * Load everything from `adapter`, first moving over anything still kept in
+   * localStorage when the adapter is another backend. The app waits for this
+   * before reading anything; it never rejects.
+   */
+  public init(adapter: StorageAdapter): Promise<void> {
+    this.ready ??= this.connect(adapter);
+    return this.ready;
+  }
+
+  public getAdapter(): StorageAdapter {
+    return this.adapter;
   }
 
-  public loadSettings(): Settings | null {
+  private async connect(adapter: StorageAdapter): Promise<void> {
+    this.adapter = adapter;
+
     try {
-      const saved = localStorage.getItem(STORAGE_KEYS.SETTINGS);
-      return saved ? JSON.parse(saved) : null;
+      if (adapter.name !== 'localstorage' && LocalStorageAdapter.isSupported()) {
+        await this.moveFrom(new LocalStorageAdapter());
+      }
+      await this.renameEntries();
+      (await adapter.list('settings')).forEach(({ key, value }) => this.entries.set(key, value));
     } catch (error) {
-      console.warn('Failed to load settings:', error);
-      return null;
+      console.warn('Failed to load stored data:', error);
+    }
+
+    await this.migrateLegacyHistory();
+    if (this.read<DayBoundary>(STORAGE_KEYS.DAY_BOUNDARY)?.dayStartHour !== this.getDayStartHour()) {
+      await this.rebucketSessions();
+    }
+    if (!this.entries.has(STORAGE_KEYS.DAILY_STATISTICS)) {
+      await this.rebuildDailyStatistics();
     }
+
+    adapter.subscribe(change => {
+      void this.handleChange(change);
+    });
   }
 
-  // Statistics management
-  public saveStatistics(stats: DailyStatistics): void {
-    try {
-      localStorage.setItem(STORAGE_KEYS.STATISTICS, JSON.stringify(stats));
-    } catch (error) {
-      console.warn('Failed to save statistics:', error);
+  // Bring everything over from another backend, then empty it
+  private async moveFrom(source: StorageAdapter): Promise<void> {
+    const contents = await Promise.all(STORE_NAMES.map(store => source.list(store)));
+    if (contents.every(entries => entries.length === 0)) return;
+
+    await this.adapter.transaction(STORE_NAMES, transaction => {
+      STORE_NAMES.forEach((store, i) => {
+        contents[i].forEach(({ key, value }) => transaction.put(store, key, value));
+      });
+    });
+    await source.transaction(STORE_NAMES, transaction => {
+      STORE_NAMES.forEach(store => transaction.clear(store));
+    });
+  }
+
+  private async renameEntries(): Promise<void> {
+    const entries = await this.adapter.list('settings');
+    const keys = new Set(entries.map(entry => entry.key));
+    const renamed = entries.filter(entry => RENAMED_ENTRIES[entry.key]);
+    if (renamed.length === 0) return;
+
+    await this.adapter.transaction(['settings'], transaction => {
+      renamed.forEach(({ key, value }) => {
+        if (!keys.has(RENAMED_ENTRIES[key])) {
+          transaction.put('settings', RENAMED_ENTRIES[key], value);
+        }
+        transaction.delete('settings', key);
+      });
+    });
+  }
+
+  private async handleChange(change: StorageChange): Promise<void> {
+    if (change.store === 'settings') {
+      try {
+        if (change.key === null) {
+          this.entries.clear();
+          (await this.adapter.list('settings')).forEach(({ key, value }) => this.entries.set(key, value));
+        } else {
+          const value = await this.adapter.get(change.store, change.key);
+          if (value === undefined) {
+            this.entries.delete(change.key);
+          } else {
+            this.entries.set(change.key, value);
+          }
+        }
+      } catch (error) {
+        console.warn('Failed to reload changed data:', error);
+      }
     }
+
+    this.dispatchEvent(new CustomEvent<StorageChange>('change', { detail: change }));
   }
 
-  public loadStatistics(): DailyStatistics | null {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEYS.STATISTICS);
-      return saved ? JSON.parse(saved) : null;
-    } catch (error) {
-      console.warn('Failed to load statistics:', error);
-      return null;
+  // Synchronous access to settings-store entries. Copies go out, so callers
+  // can't change what is held here by accident.
+  private read<T>(key: string): T | undefined {
+    const value = this.entries.get(key);
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+  }
+
+  private write(key: string, value: unknown, description: string): void {
+    this.entries.set(key, JSON.parse(JSON.stringify(value)));
+    this.adapter.put('settings', key, value)
+      .catch(error => console.warn(`Failed to save ${description}:`, error));
+  }
+
+  private remove(key: string, description: string): void {
+    this.entries.delete(key);
+    this.adapter.delete('settings', key)
+      .catch(error => console.warn(`Failed to clear ${description}:`, error));
+  }
+
+  // Settings management. This is the only place settings are written, always
+  // validated and with the current schema version.
+  public saveSettings(settings: Settings): SettingsValidation {
+    const previous = this.loadSettings().settings;
+    const result = validateSettings({ ...settings });
+    this.write(STORAGE_KEYS.SETTINGS, toStoredSettings(result.settings), 'settings');
+
+    // Days and streaks follow these, so history is worked out again
+    if (result.settings.dayStartHour !== previous.dayStartHour) {
+      void this.rebucketSessions();
+    } else if (
+      result.settings.streakFreezesPerMonth !== previous.streakFreezesPerMonth ||
+      result.settings.streakRestDays.join() !== previous.streakRestDays.join()
+    ) {
+      this.refreshStreaks();
     }
+    return result;
   }
 
-  // Session history management
-  public saveSessionRecord(session: SessionRecord): void {
-    try {
-      const existing = this.loadSessionHistory();
-      existing.push(session);
+  // Always returns usable settings; anything repaired along the way is listed in `issues`
+  public loadSettings(): SettingsValidation {
+    const saved = this.read(STORAGE_KEYS.SETTINGS);
+    return saved !== undefined ? parseStoredSettings(saved) : validateSettings({});
+  }
+
+  // User-defined cycle templates
+  public saveCycleTemplates(templates: CycleTemplate[]): void {
+    this.write(STORAGE_KEYS.CYCLE_TEMPLATES, templates, 'cycle templates');
+  }
+
+  public loadCycleTemplates(): CycleTemplate[] {
+    const saved = this.read<CycleTemplate[]>(STORAGE_KEYS.CYCLE_TEMPLATES);
+    return Array.isArray(saved) ? saved.filter(isValidCycleTemplate) : [];
+  }
+
+  // User-created settings profiles; the built-in ones live in code
+  public saveSettingsProfiles(profiles: SettingsProfile[]): void {
+    this.write(STORAGE_KEYS.SETTINGS_PROFILES, profiles, 'settings profiles');
+  }
+
+  public loadSettingsProfiles(): SettingsProfile[] {
+    const saved = this.read<SettingsProfile[]>(STORAGE_KEYS.SETTINGS_PROFILES);
+    return Array.isArray(saved) ? saved.filter(isValidSettingsProfile) : [];
+  }
+
+  // Recurring focus blocks, kept next to the settings
+  public saveFocusSchedule(blocks: FocusBlock[]): void {
+    this.write(STORAGE_KEYS.FOCUS_SCHEDULE, blocks, 'focus schedule');
+  }
+
+  public loadFocusSchedule(): FocusBlock[] {
+    const saved = this.read<FocusBlock[]>(STORAGE_KEYS.FOCUS_SCHEDULE);
+    return Array.isArray(saved) ? saved.filter(isValidFocusBlock) : [];
+  }
+
+  public saveGoals(goals: Goal[]): void {
+    this.write(STORAGE_KEYS.GOALS, goals, 'goals');
+  }
+
+  public loadGoals(): Goal[] {
+    const saved = this.read<Goal[]>(STORAGE_KEYS.GOALS);
+    return Array.isArray(saved) ? saved.filter(isValidGoal) : [];
+  }
+
+  // How each goal went, period by period, for hit rates over time
+  public saveGoalHistory(history: GoalResult[]): void {
+    this.write(STORAGE_KEYS.GOAL_HISTORY, history, 'goal history');
+  }
+
+  public loadGoalHistory(): GoalResult[] {
+    const saved = this.read<GoalResult[]>(STORAGE_KEYS.GOAL_HISTORY);
+    return Array.isArray(saved) ? saved.filter(isValidGoalResult) : [];
+  }
+
+  // Light or dark, once the user has picked one
+  public saveTheme(theme: 'light' | 'dark'): void {
+    this.write(STORAGE_KEYS.THEME, theme, 'theme');
+  }
+
+  public loadTheme(): 'light' | 'dark' | null {
+    const saved = this.read(STORAGE_KEYS.THEME);
+    return saved === 'light' || saved === 'dark' ? saved : null;
+  }
+
+  // In-flight timer snapshot
+  public saveTimerSnapshot(snapshot: TimerSnapshot): void {
+    this.write(STORAGE_KEYS.TIMER_SNAPSHOT, snapshot, 'timer snapshot');
+  }
 
-      // Keep only last 100 sessions to prevent storage bloat
-      const limited = existing.slice(-100);
+  public loadTimerSnapshot(): TimerSnapshot | null {
+    return this.read<TimerSnapshot>(STORAGE_KEYS.TIMER_SNAPSHOT) ?? null;
+  }
 
-      localStorage.setItem(STORAGE_KEYS.SESSION_HISTORY, JSON.stringify(limited));
+  public clearTimerSnapshot(): void {
+    this.remove(STORAGE_KEYS.TIMER_SNAPSHOT, 'timer snapshot');
+  }
+
+  // Session log: every finished, skipped or abandoned session, appended and
+  // never rewritten. All statistics are derived from it.
+  public async appendSessionRecord(session: SessionRecord): Promise<void> {
+    try {
+      if (await this.adapter.get('sessions', session.id) !== undefined) return;
+
+      await this.adapter.put('sessions', session.id, session);
+      await this.updateDailyStatistics(session.date);
     } catch (error) {
       console.warn('Failed to save session record:', error);
     }
   }
 
-  public loadSessionHistory(): SessionRecord[] {
+  public loadSessionLog(): Promise<SessionRecord[]> {
+    return this.querySessions();
+  }
+
+  public getSessionsForDate(date: string): Promise<SessionRecord[]> {
+    return this.querySessions({ index: 'date', equals: date });
+  }
+
+  public getSessionsForDateRange(startDate: string, endDate: string): Promise<SessionRecord[]> {
+    return this.querySessions({ index: 'date', from: startDate, to: endDate });
+  }
+
+  public getSessionsByType(sessionType: string): Promise<SessionRecord[]> {
+    return this.querySessions({ index: 'sessionType', equals: sessionType });
+  }
+
+  public getSessionsByTag(tag: string): Promise<SessionRecord[]> {
+    return this.querySessions({ index: 'tag', equals: tag });
+  }
+
+  private async querySessions(query?: StorageQuery): Promise<SessionRecord[]> {
     try {
-      const saved = localStorage.getItem(STORAGE_KEYS.SESSION_HISTORY);
-      return saved ? JSON.parse(saved) : [];
+      const entries = await this.adapter.list<SessionRecord>('sessions', query);
+      return sortSessionRecords(entries.map(entry => entry.value).filter(isValidSessionRecord));
     } catch (error) {
-      console.warn('Failed to load session history:', error);
+      console.warn('Failed to load session log:', error);
       return [];
     }
   }
 
-  public getSessionsForDate(date: string): SessionRecord[] {
-    const allSessions = this.loadSessionHistory();
-    return allSessions.filter(session => session.date === date);
+  // Replaces the whole log; only migration and import do this
+  private async writeSessionLog(log: SessionRecord[]): Promise<void> {
+    await this.adapter.transaction(['sessions'], transaction => {
+      transaction.clear('sessions');
+      log.forEach(record => transaction.put('sessions', record.id, record));
+    });
   }
 
-  public getSessionsForDateRange(startDate: string, endDate: string): SessionRecord[] {
-    const allSessions = this.loadSessionHistory();
-    return allSessions.filter(session =>
-      session.date >= startDate && session.date <= endDate
-    );
+  // Daily statistics: derived from the log and cached as a settings entry,
+  // so the stats strip can read them synchronously
+  public loadDailyStatistics(): Record<string, DailyStatistics> {
+    return this.read<Record<string, DailyStatistics>>(STORAGE_KEYS.DAILY_STATISTICS) ?? {};
   }
 
-  // Daily statistics helpers
-  public calculateDailyStats(date: string): DailyStatistics {
-    const sessions = this.getSessionsForDate(date);
+  public getDailyStatistics(date: string): DailyStatistics {
+    return this.loadDailyStatistics()[date] ?? emptyDay(date);
+  }
 
-    const workSessions = sessions.filter(s => s.sessionType === 'work' && s.completed);
-    const breakSessions = sessions.filter(s => s.sessionType !== 'work' && s.completed);
+  // A streak stays alive through a day that hasn't had any work yet
+  public getCurrentStreak(today: string): number {
+    return currentStreak(this.loadDailyStatistics(), today, this.getStreakRules());
+  }
 
-    const focusTimeMinutes = workSessions.reduce((total, session) => total + session.duration, 0);
-    const breakTimeMinutes = breakSessions.reduce((total, session) => total + session.duration, 0);
+  public async rebuildDailyStatistics(log?: SessionRecord[]): Promise<Record<string, DailyStatistics>> {
+    const days = buildDailyStatistics(log ?? await this.loadSessionLog(), this.getStreakRules());
+    this.write(STORAGE_KEYS.DAILY_STATISTICS, days, 'daily statistics');
+    return days;
+  }
 
-    return {
-      date,
-      sessionsCompleted: workSessions.length,
-      focusTimeMinutes,
-      breakTimeMinutes,
-      streak: this.calculateStreak(date)
-    };
+  // Streaks depend on every day before, so they're all worked out again
+  private async updateDailyStatistics(date: string): Promise<void> {
+    const days = this.loadDailyStatistics();
+    days[date] = buildDayStatistics(date, await this.getSessionsForDate(date));
+    applyStreaks(days, this.getStreakRules());
+    this.write(STORAGE_KEYS.DAILY_STATISTICS, days, 'daily statistics');
   }
 
-  private calculateStreak(currentDate: string): number {
-    const allDates = this.getUniqueDatesWithSessions();
-    if (allDates.length === 0) return 0;
+  private refreshStreaks(): void {
+    const days = this.loadDailyStatistics();
+    applyStreaks(days, this.getStreakRules());
+    this.write(STORAGE_KEYS.DAILY_STATISTICS, days, 'daily statistics');
+    this.announceRebuild();
+  }
 
-    // Sort dates in descending order
-    allDates.sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
+  public getStreakRules(): StreakRules {
+    const { streakRestDays, streakFreezesPerMonth } = this.loadSettings().settings;
+    return { restDays: streakRestDays, freezesPerMonth: streakFreezesPerMonth };
+  }
 
-    let streak = 0;
-    const today = new Date(currentDate);
-    let checkDate = new Date(today);
+  // Days are local and begin at the `dayStartHour` setting
+  public getDayStartHour(): number {
+    return this.loadSettings().settings.dayStartHour;
+  }
 
-    // Check each day backwards from current date
-    for (let i = 0; i < allDates.length; i++) {
-      const sessionDate = new Date(allDates[i]);
+  public getToday(): string {
+    return this.dateOf(Date.now());
+  }
 
-      if (this.isSameDate(sessionDate, checkDate)) {
-        const dayStats = this.calculateDailyStats(allDates[i]);
-        if (dayStats.sessionsCompleted > 0) {
-          streak++;
-          checkDate.setDate(checkDate.getDate() - 1);
-        } else {
-          break;
-        }
-      } else if (sessionDate < checkDate) {
-        // Gap in dates, streak broken
-        break;
+  public dateOf(time: number): string {
+    return toDateKey(time, this.getDayStartHour());
+  }
+
+  /**
+   * Move every session to the day it falls in under the current day
+   * boundary. Runs when the day start setting changes, and once for history
+   * from older builds, which bucketed days in UTC. Recovered sessions keep
+   * their day, as they have no real time to go by.
+   */
+  private async rebucketSessions(log?: SessionRecord[]): Promise<void> {
+    const dayStartHour = this.getDayStartHour();
+
+    try {
+      const records = log ?? await this.loadSessionLog();
+      const rebucketed = bucketSessionRecords(records, dayStartHour);
+
+      if (rebucketed.some((record, i) => record !== records[i])) {
+        await this.writeSessionLog(rebucketed);
+        await this.rebuildDailyStatistics(rebucketed);
       }
+      this.write(STORAGE_KEYS.DAY_BOUNDARY, { dayStartHour }, 'day boundary');
+      this.announceRebuild();
+    } catch (error) {
+      // The boundary isn't recorded, so the next load tries again
+      console.warn('Failed to move sessions to their local days:', error);
     }
+  }
 
-    return streak;
+  // Other tabs hear about the writes from the adapter; this one needs telling
+  private announceRebuild(): void {
+    const changes: StorageChange[] = [
+      { store: 'sessions', key: null },
+      { store: 'settings', key: STORAGE_KEYS.DAILY_STATISTICS }
+    ];
+    changes.forEach(change => this.dispatchEvent(new CustomEvent<StorageChange>('change', { detail: change })));
   }
 
-  private getUniqueDatesWithSessions(): string[] {
-    const sessions = this.loadSessionHistory();
-    const dates = [...new Set(sessions.map(s => s.date))];
-    return dates;
+  /**
+   * Fold history left by older builds into the session log. Runs whenever a
+   * legacy key is present, so a tab still on the old build can't strand data;
+   * records are merged by id, so running again changes nothing.
+   */
+  private async migrateLegacyHistory(): Promise<void> {
+    const present = LEGACY_HISTORY_KEYS.filter(key => this.entries.has(key));
+    if (present.length === 0) return;
+
+    try {
+      const entries = present.flatMap(key => {
+        const value = this.entries.get(key);
+        return Array.isArray(value) ? value : [value];
+      });
+      const log = recoverSessionRecords(entries, await this.loadSessionLog());
+
+      await this.writeSessionLog(log);
+      await this.rebuildDailyStatistics(log);
+      await this.adapter.transaction(['settings'], transaction => {
+        present.forEach(key => transaction.delete('settings', key));
+      });
+      present.forEach(key => this.entries.delete(key));
+    } catch (error) {
+      // The legacy entries stay put, so the next load tries again
+      console.warn('Failed to migrate session history:', error);
+    }
   }
 
-  private isSameDate(date1: Date, date2: Date): boolean {
-    return date1.toISOString().split('T')[0] === date2.toISOString().split('T')[0];
+  public getInterruptionSummary(sessions: SessionRecord[]): {
+    total: number;
+    internal: number;
+    external: number;
+  } {
+    const interruptions = sessions.flatMap(session => session.interruptions ?? []);
+    const internal = interruptions.filter(i => i.type === INTERRUPTION_TYPES.INTERNAL).length;
+
+    return {
+      total: interruptions.length,
+      internal,
+      external: interruptions.length - internal
+    };
+  }
+
+  // Completed work split by the profile it ran under; older records count as 'unknown'
+  public getProfileSummary(sessions: SessionRecord[]): Record<string, {
+    sessions: number;
+    focusMinutes: number;
+  }> {
+    const summary: Record<string, { sessions: number; focusMinutes: number }> = {};
+
+    sessions
+      .filter(session => session.completed && session.sessionType === 'work')
+      .forEach(session => {
+        const entry = summary[session.profileId ?? 'unknown'] ??= { sessions: 0, focusMinutes: 0 };
+        entry.sessions++;
+        entry.focusMinutes += session.duration;
+      });
+
+    return summary;
   }
 
   // Utility methods
-  public exportData(): string {
+  public async exportData(): Promise<string> {
+    const sessionHistory = await this.loadSessionLog();
     const data = {
-      settings: this.loadSettings(),
-      statistics: this.loadStatistics(),
-      sessionHistory: this.loadSessionHistory(),
+      version: EXPORT_VERSION,
+      settings: toStoredSettings(this.loadSettings().settings),
+      sessionHistory,
+      dailyStatistics: this.loadDailyStatistics(),
+      interruptions: this.getInterruptionSummary(sessionHistory),
+      profiles: this.getProfileSummary(sessionHistory),
       exportDate: new Date().toISOString()
     };
 
     return JSON.stringify(data, null, 2);
   }
 
-  public importData(jsonData: string): boolean {
-    try {
-      const data = JSON.parse(jsonData);
+  /**
+   * What importing `jsonData` would do, without writing anything. Rejects
+   * with an ImportError if the file can't be imported at all.
+   */
+  public async previewImport(jsonData: string, mode: ImportMode): Promise<ImportReport> {
+    const file = parseExport(jsonData);
+    return planImport(file, await this.loadSessionLog(), this.loadSettings().settings, mode).report;
+  }
 
-      if (data.settings) {
-        this.saveSettings(data.settings);
+  /**
+   * Import an export file, merging its sessions into the log or replacing
+   * the log with them. The log, settings and the statistics derived from
+   * them are written in one transaction, so a failure leaves everything as
+   * it was. Sessions are moved to their days under the imported day start.
+   */
+  public async importData(jsonData: string, mode: ImportMode = 'merge'): Promise<boolean> {
+    try {
+      const plan = planImport(parseExport(jsonData), await this.loadSessionLog(), this.loadSettings().settings, mode);
+      const settings = plan.settings ?? this.loadSettings().settings;
+      const log = bucketSessionRecords(plan.sessions, settings.dayStartHour);
+      const days = buildDailyStatistics(log, {
+        restDays: settings.streakRestDays,
+        freezesPerMonth: settings.streakFreezesPerMonth
+      });
+
+      const entries: [string, unknown][] = [
+        [STORAGE_KEYS.DAILY_STATISTICS, days],
+        [STORAGE_KEYS.DAY_BOUNDARY, { dayStartHour: settings.dayStartHour }]
+      ];
+      if (plan.settings) {
+        entries.push([STORAGE_KEYS.SETTINGS, toStoredSettings(plan.settings)]);
       }
 
-      if (data.statistics) {
-        this.saveStatistics(data.statistics);
-      }
+      await this.adapter.transaction(['sessions', 'settings'], transaction => {
+        transaction.clear('sessions');
+        log.forEach(record => transaction.put('sessions', record.id, record));
+        entries.forEach(([key, value]) => transaction.put('settings', key, value));
+      });
+      entries.forEach(([key, value]) => this.entries.set(key, JSON.parse(JSON.stringify(value))));
 
-      if (data.sessionHistory && Array.isArray(data.sessionHistory)) {
-        localStorage.setItem(STORAGE_KEYS.SESSION_HISTORY, JSON.stringify(data.sessionHistory));
+      this.announceRebuild();
+      if (plan.settings) {
+        this.dispatchEvent(new CustomEvent<StorageChange>('change', { detail: { store: 'settings', key: STORAGE_KEYS.SETTINGS } }));
       }
-
       return true;
     } catch (error) {
       console.error('Failed to import data:', error);
@@ -201,32 +616,31 @@ export class StorageManager {
     }
   }
 
-  public clearAllData(): void {
+  public async clearAllData(): Promise<void> {
+    const keys = [
+      STORAGE_KEYS.SETTINGS,
+      STORAGE_KEYS.DAILY_STATISTICS,
+      STORAGE_KEYS.GOAL_HISTORY,
+      STORAGE_KEYS.TIMER_SNAPSHOT,
+      ...LEGACY_HISTORY_KEYS
+    ];
+
     try {
-      localStorage.removeItem(STORAGE_KEYS.SETTINGS);
-      localStorage.removeItem(STORAGE_KEYS.STATISTICS);
-      localStorage.removeItem(STORAGE_KEYS.SESSION_HISTORY);
+      await this.adapter.transaction(['sessions', 'settings'], transaction => {
+        transaction.clear('sessions');
+        keys.forEach(key => transaction.delete('settings', key));
+      });
+      keys.forEach(key => this.entries.delete(key));
     } catch (error) {
       console.warn('Failed to clear data:', error);
     }
   }
 
   // Storage space utilities
-  public getStorageInfo(): { used: number; available: number } {
+  public async getStorageInfo(): Promise<{ used: number; available: number }> {
     try {
-      let total = 0;
-
-      // Estimate current usage
-      for (const key in localStorage) {
-        if (localStorage.hasOwnProperty(key)) {
-          total += localStorage[key].length + key.length;
-        }
-      }
-
-      return {
-        used: total,
-        available: 5 * 1024 * 1024 - total // Assume 5MB limit
-      };
+      const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+      return { used: usage, available: quota - usage };
     } catch (error) {
       console.warn('Failed to get storage info:', error);
       return { used: 0, available: 0 };
@@ -0,0 +1,75 @@
+export type StoreName = 'sessions' | 'todos' | 'settings';
+
+export const STORE_NAMES: StoreName[] = ['sessions', 'todos', 'settings'];
+
+export interface StorageEntry<T = unknown> {
+  key: string;
+  value: T;
+}
+
+// An exact match on an index, or an inclusive range when `from`/`to` are given
+export interface StorageQuery {
+  index: string;
+  equals?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface StorageChange {
+  store: StoreName;
+  key: string | null;  // null when any entry in the store may have changed
+}
+
+// Writes staged inside `transaction`; applied together or not at all
+export interface StorageTransaction {
+  put(store: StoreName, key: string, value: unknown): void;
+  delete(store: StoreName, key: string): void;
+  clear(store: StoreName): void;
+}
+
+/**
+ * Where Fokus keeps its data. Session records and todos are stored by id and
+ * can be listed through an index; settings are plain key-value entries.
+ * `subscribe` reports changes made elsewhere, i.e. by another tab; an
+ * adapter's own writes are never echoed back to it.
+ */
+export interface StorageAdapter {
+  readonly name: string;
+  get<T>(store: StoreName, key: string): Promise<T | undefined>;
+  put(store: StoreName, key: string, value: unknown): Promise<void>;
+  delete(store: StoreName, key: string): Promise<void>;
+  list<T>(store: StoreName, query?: StorageQuery): Promise<StorageEntry<T>[]>;
+  transaction(stores: StoreName[], work: (transaction: StorageTransaction) => void): Promise<void>;
+  subscribe(listener: (change: StorageChange) => void): () => void;
+}
+
+interface StoreSchema {
+  keyPath: string | null;          // records carry their own key here; null for key-value entries
+  indexes: Record<string, string>; // index name → field; array fields match on any element
+}
+
+export const STORE_SCHEMAS: Record<StoreName, StoreSchema> = {
+  sessions: { keyPath: 'id', indexes: { date: 'date', sessionType: 'sessionType', tag: 'tags' } },
+  todos: { keyPath: 'id', indexes: { tag: 'tags' } },
+  settings: { keyPath: null, indexes: {} }
+};
+
+// For adapters without real indexes: does `value` belong in the query's results?
+export function matchesQuery(store: StoreName, value: unknown, query: StorageQuery): boolean {
+  const field = STORE_SCHEMAS[store].indexes[query.index];
+  if (!field || typeof value !== 'object' || value === null) return false;
+
+  const indexed = (value as Record<string, unknown>)[field];
+  return (Array.isArray(indexed) ? indexed : [indexed]).some(key =>
+    typeof key === 'string' &&
+    (query.equals === undefined || key === query.equals) &&
+    (query.from === undefined || key >= query.from) &&
+    (query.to === undefined || key <= query.to)
+  );
+}
+
+// The key a record is stored under in a store with a key path
+export function recordKey(store: StoreName, value: unknown): string {
+  const keyPath = STORE_SCHEMAS[store].keyPath;
+  return keyPath ? String((value as Record<string, unknown>)[keyPath]) : '';
+}
\ No newline at end of file
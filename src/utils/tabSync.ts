@@ -0,0 +1,116 @@
+import type { PomodoroTimer, TimerCommand, TimerEventData, TimerRemote } from '../components/Timer.js';
+import type { TimerSnapshot } from './storage.js';
+
+const CHANNEL_NAME = 'fokus-timer';
+const LEADER_LOCK = 'fokus-timer-leader';
+
+type TabMessage =
+  | { type: 'hello' }
+  | { type: 'state'; snapshot: TimerSnapshot; data: TimerEventData }
+  | { type: 'command'; command: TimerCommand };
+
+/**
+ * Keeps a single timer across every open tab. Whichever tab holds the leader
+ * lock owns the timer and is the only one that records sessions and shows
+ * notifications; the others mirror its updates and send their control
+ * actions to it. When the owner closes, the lock passes to a waiting tab,
+ * which carries on from the saved snapshot.
+ */
+export class TabCoordinator implements TimerRemote {
+  private channel: BroadcastChannel | null = null;
+  private timer: PomodoroTimer | null = null;
+  private leader: boolean = false;
+
+  // Without these every tab simply runs its own timer, as before
+  public static isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined' && 'locks' in navigator;
+  }
+
+  /**
+   * Join the other tabs. `onLeader` runs once, when this tab takes over the
+   * timer; until then the timer should be following this coordinator.
+   */
+  public connect(timer: PomodoroTimer, onLeader: () => void): void {
+    this.timer = timer;
+
+    if (!TabCoordinator.isSupported()) {
+      this.becomeLeader(onLeader);
+      return;
+    }
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.addEventListener('message', (event: MessageEvent<TabMessage>) => {
+      this.handleMessage(event.data);
+    });
+
+    timer.addEventListener('timerUpdate', (event: Event) => {
+      if (this.leader) {
+        this.broadcastState((event as CustomEvent<TimerEventData>).detail);
+      }
+    });
+
+    // Ask the current owner for its state so this tab shows it straight away
+    this.post({ type: 'hello' });
+
+    // The lock is held for the life of the page and released when it closes
+    navigator.locks.request(LEADER_LOCK, () => {
+      this.becomeLeader(onLeader);
+      return new Promise<void>(() => {});
+    }).catch(error => {
+      console.warn('Failed to coordinate timer between tabs:', error);
+      this.becomeLeader(onLeader);
+    });
+  }
+
+  public send(command: TimerCommand): void {
+    this.post({ type: 'command', command });
+  }
+
+  public isLeader(): boolean {
+    return this.leader;
+  }
+
+  private becomeLeader(onLeader: () => void): void {
+    if (this.leader) return;
+
+    this.leader = true;
+    onLeader();
+  }
+
+  private handleMessage(message: TabMessage): void {
+    if (!this.timer) return;
+
+    switch (message.type) {
+      case 'hello':
+        if (this.leader) {
+          this.broadcastState();
+        }
+        break;
+      case 'state':
+        if (!this.leader) {
+          this.timer.mirror(message.snapshot, message.data);
+        }
+        break;
+      case 'command':
+        if (this.leader) {
+          this.timer.handleCommand(message.command);
+        }
+        break;
+    }
+  }
+
+  private broadcastState(data?: TimerEventData): void {
+    if (!this.timer) return;
+
+    const snapshot = this.timer.getSnapshot();
+    this.post({ type: 'state', snapshot, data: data ?? this.timer.getEventData() });
+  }
+
+  private post(message: TabMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.warn('Failed to message other tabs:', error);
+    }
+  }
+}
\ No newline at end of file
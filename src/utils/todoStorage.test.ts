@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach, beforeEach, vi } from 'vitest';
+import { STORAGE_KEYS } from './constants.js';
+import { MemoryStorageAdapter } from './memoryAdapter.js';
+import type { TodoItem, TodoStorage, TodoStorageData } from './todoStorage.js';
+
+const HOUR = 60 * 60 * 1000;
+
+function todo(id: string, text: string, createdAt: number): TodoItem {
+  return { id, text, completed: false, createdAt };
+}
+
+describe('TodoStorage', () => {
+  let adapter: MemoryStorageAdapter;
+  let todos: TodoStorage;
+  let sessionCopy: Map<string, string>;
+
+  beforeEach(async () => {
+    vi.resetModules();
+    adapter = new MemoryStorageAdapter();
+    todos = (await import('./todoStorage.js')).TodoStorage.getInstance();
+
+    sessionCopy = new Map();
+    vi.stubGlobal('sessionStorage', {
+      getItem: (key: string) => sessionCopy.get(key) ?? null,
+      removeItem: (key: string) => sessionCopy.delete(key)
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const legacyList = (...items: TodoItem[]): TodoStorageData => ({ todos: items, expiresAt: Date.now() + HOUR });
+
+  it('splits the single-entry list of older builds into todos', async () => {
+    const legacy = legacyList(todo('a', 'Write report #Work', 1), todo('b', 'Call the bank', 2));
+    await adapter.put('settings', 'fokus_todos', legacy);
+
+    await todos.init(adapter);
+
+    expect(todos.getTodos().map(item => [item.id, item.tags])).toEqual([['b', []], ['a', ['work']]]);
+    expect((await adapter.list('todos')).map(entry => entry.key).sort()).toEqual(['a', 'b']);
+    expect(await adapter.get('settings', STORAGE_KEYS.TODOS_EXPIRE_AT)).toBe(legacy.expiresAt);
+    expect(await adapter.get('settings', 'fokus_todos')).toBeUndefined();
+  });
+
+  it('prefers the sessionStorage copy, and removes it once moved over', async () => {
+    await adapter.put('settings', 'fokus_todos', legacyList(todo('old', 'Stale copy', 1)));
+    sessionCopy.set('fokus_todos', JSON.stringify(legacyList(todo('new', 'Latest copy', 2))));
+
+    await todos.init(adapter);
+
+    expect(todos.getTodos().map(item => item.id)).toEqual(['new']);
+    expect(sessionCopy.has('fokus_todos')).toBe(false);
+    expect(await adapter.get('settings', 'fokus_todos')).toBeUndefined();
+  });
+
+  it('starts empty once the list has expired', async () => {
+    await adapter.put('todos', 'a', todo('a', 'Yesterday', 1));
+    await adapter.put('settings', STORAGE_KEYS.TODOS_EXPIRE_AT, Date.now() - HOUR);
+
+    await todos.init(adapter);
+
+    expect(todos.getTodos()).toEqual([]);
+    await vi.waitFor(async () => expect(await adapter.list('todos')).toEqual([]));
+  });
+});
\ No newline at end of file
@@ -1,25 +1,31 @@
+import { STORAGE_KEYS } from './constants.js';
+import { MemoryStorageAdapter } from './memoryAdapter.js';
+import type { StorageAdapter } from './storageAdapter.js';
+
 export interface TodoItem {
   id: string;
   text: string;
   completed: boolean;
   createdAt: number;
+  tags?: string[];  // #hashtags in the text, lowercased
 }
 
+// How older builds stored the list, under one web storage key
 export interface TodoStorageData {
   todos: TodoItem[];
   expiresAt: number;
 }
 
-const STORAGE_KEY = 'fokus_todos';
+const LEGACY_STORAGE_KEY = 'fokus_todos';
 const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours in milliseconds
 
 export class TodoStorage {
   private static instance: TodoStorage;
   private todos: TodoItem[] = [];
+  private expiresAt: number = 0;
+  private adapter: StorageAdapter = new MemoryStorageAdapter();
 
-  private constructor() {
-    this.loadTodos();
-  }
+  private constructor() {}
 
   public static getInstance(): TodoStorage {
     if (!TodoStorage.instance) {
@@ -28,61 +34,60 @@ export class TodoStorage {
     return TodoStorage.instance;
   }
 
-  private loadTodos(): void {
+  /**
+   * Load the todos from `adapter`, which later changes are written to. Todos
+   * still in the single-entry format of older builds are split out first,
+   * and an expired list is cleared. Never rejects.
+   */
+  public async init(adapter: StorageAdapter): Promise<void> {
+    this.adapter = adapter;
+
     try {
-      // Try sessionStorage first (automatically clears when tab closes)
-      let saved = sessionStorage.getItem(STORAGE_KEY);
-
-      if (!saved) {
-        // Fallback to localStorage with expiration check
-        saved = localStorage.getItem(STORAGE_KEY);
-
-        if (saved) {
-          const data: TodoStorageData = JSON.parse(saved);
-
-          // Check if data has expired
-          if (Date.now() > data.expiresAt) {
-            this.clearExpiredData();
-            return;
-          }
-
-          this.todos = data.todos || [];
-
-          // Migrate to sessionStorage for better UX
-          this.saveTodos();
-          localStorage.removeItem(STORAGE_KEY);
-        }
-      } else {
-        const data: TodoStorageData = JSON.parse(saved);
-        this.todos = data.todos || [];
+      // Older builds kept a copy in sessionStorage too and read that first
+      const legacy = readSessionCopy() ?? await adapter.get<TodoStorageData>('settings', LEGACY_STORAGE_KEY);
+      if (legacy) {
+        await adapter.transaction(['todos', 'settings'], transaction => {
+          (legacy.todos ?? []).forEach(todo => transaction.put('todos', todo.id, { ...todo, tags: todo.tags ?? parseTags(todo.text) }));
+          transaction.put('settings', STORAGE_KEYS.TODOS_EXPIRE_AT, legacy.expiresAt);
+          transaction.delete('settings', LEGACY_STORAGE_KEY);
+        });
+        removeSessionCopy();
       }
+
+      const expiresAt = await adapter.get<number>('settings', STORAGE_KEYS.TODOS_EXPIRE_AT);
+      if (expiresAt !== undefined && Date.now() > expiresAt) {
+        this.clearExpiredData();
+        return;
+      }
+
+      const todos = await adapter.list<TodoItem>('todos');
+      this.todos = todos.map(entry => entry.value).sort((a, b) => b.createdAt - a.createdAt);
+      this.expiresAt = expiresAt ?? 0;
     } catch (error) {
       console.warn('Failed to load todos:', error);
       this.todos = [];
     }
   }
 
+  // The list in memory is what the UI reads, so storage is written behind it
   private saveTodos(): void {
-    try {
-      const data: TodoStorageData = {
-        todos: this.todos,
-        expiresAt: Date.now() + CACHE_DURATION
-      };
+    this.expiresAt = Date.now() + CACHE_DURATION;
 
-      // Save to sessionStorage (primary)
-      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-
-      // Also save to localStorage as backup for 24-hour persistence
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
-    } catch (error) {
-      console.warn('Failed to save todos:', error);
-    }
+    this.adapter.transaction(['todos', 'settings'], transaction => {
+      transaction.clear('todos');
+      this.todos.forEach(todo => transaction.put('todos', todo.id, todo));
+      transaction.put('settings', STORAGE_KEYS.TODOS_EXPIRE_AT, this.expiresAt);
+    }).catch(error => console.warn('Failed to save todos:', error));
   }
 
   private clearExpiredData(): void {
     this.todos = [];
-    localStorage.removeItem(STORAGE_KEY);
-    sessionStorage.removeItem(STORAGE_KEY);
+    this.expiresAt = 0;
+
+    this.adapter.transaction(['todos', 'settings'], transaction => {
+      transaction.clear('todos');
+      transaction.delete('settings', STORAGE_KEYS.TODOS_EXPIRE_AT);
+    }).catch(error => console.warn('Failed to clear expired todos:', error));
   }
 
   public addTodo(text: string): TodoItem {
@@ -90,7 +95,8 @@ export class TodoStorage {
       id: this.generateId(),
       text: text.trim(),
       completed: false,
-      createdAt: Date.now()
+      createdAt: Date.now(),
+      tags: parseTags(text)
     };
 
     this.todos.unshift(todo); // Add to beginning
@@ -122,6 +128,7 @@ export class TodoStorage {
     const todo = this.todos.find(t => t.id === id);
     if (todo) {
       todo.text = text.trim();
+      todo.tags = parseTags(text);
       this.saveTodos();
       return todo;
     }
@@ -136,6 +143,11 @@ export class TodoStorage {
     return this.todos.filter(todo => !todo.completed);
   }
 
+  // What sessions are put down to: the top todo not yet done
+  public getCurrentTodo(): TodoItem | null {
+    return this.todos.find(todo => !todo.completed) ?? null;
+  }
+
   public getCompletedTodos(): TodoItem[] {
     return this.todos.filter(todo => todo.completed);
   }
@@ -171,28 +183,13 @@ export class TodoStorage {
     isExpired: boolean;
     totalItems: number;
   } {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY) || sessionStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const data: TodoStorageData = JSON.parse(saved);
-        const timeRemaining = Math.max(0, data.expiresAt - Date.now());
-        const isExpired = timeRemaining === 0;
-
-        return {
-          expiresAt: data.expiresAt,
-          timeRemaining,
-          isExpired,
-          totalItems: this.todos.length
-        };
-      }
-    } catch (error) {
-      console.warn('Failed to get cache info:', error);
-    }
+    const expiresAt = this.expiresAt > 0 ? this.expiresAt : Date.now() + CACHE_DURATION;
+    const timeRemaining = Math.max(0, expiresAt - Date.now());
 
     return {
-      expiresAt: Date.now() + CACHE_DURATION,
-      timeRemaining: CACHE_DURATION,
-      isExpired: false,
+      expiresAt,
+      timeRemaining,
+      isExpired: timeRemaining === 0,
       totalItems: this.todos.length
     };
   }
@@ -213,20 +210,30 @@ export class TodoStorage {
       return `${minutes}m remaining`;
     }
   }
+}
 
-  // Clean up expired data on app startup
-  public static cleanupExpiredData(): void {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const data: TodoStorageData = JSON.parse(saved);
-        if (Date.now() > data.expiresAt) {
-          localStorage.removeItem(STORAGE_KEY);
-          sessionStorage.removeItem(STORAGE_KEY);
-        }
-      }
-    } catch (error) {
-      console.warn('Failed to cleanup expired data:', error);
-    }
+function parseTags(text: string): string[] {
+  const tags = [...text.matchAll(/#([\p{L}\p{N}_-]+)/gu)].map(match => match[1].toLowerCase());
+  return [...new Set(tags)];
+}
+
+// The old sessionStorage copy of the list, if there is one
+function readSessionCopy(): TodoStorageData | undefined {
+  try {
+    const saved = sessionStorage.getItem(LEGACY_STORAGE_KEY);
+    return saved ? JSON.parse(saved) as TodoStorageData : undefined;
+  } catch (error) {
+    // Blocked storage throws on access; a corrupt copy isn't worth keeping
+    console.warn('Failed to read legacy todos from sessionStorage:', error);
+    removeSessionCopy();
+    return undefined;
+  }
+}
+
+function removeSessionCopy(): void {
+  try {
+    sessionStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch {
+    // Nothing to clean up where sessionStorage is blocked
   }
 }
\ No newline at end of file